@@ -1,4 +1,4 @@
-/** Maximum characters in a single tool response before truncation. */
+/** Maximum characters in a single tool response; longer ones continue via cf_dns_continue. */
 export const CHARACTER_LIMIT = 25_000;
 
 /** Default number of records per page (lower than CF's 100 to save tokens). */
@@ -54,3 +54,89 @@ export const DNS_RECORD_TYPES = [
 ] as const;
 
 export type DnsRecordType = (typeof DNS_RECORD_TYPES)[number];
+
+/** Output formats offered by the read tools; see formatters/output.ts. */
+export const OUTPUT_FORMATS = ["json", "json_compact", "csv", "table", "tabular"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** How long a plan from cf_dns_plan stays valid for cf_dns_apply (30 minutes). */
+export const PLAN_TTL_MS = 30 * 60 * 1000;
+
+/** How long a delete confirmation token stays valid (5 minutes). */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/** Maximum operations sent in one batch request when a job must be split. */
+export const BATCH_CHUNK_SIZE = 100;
+
+/** How long resolved zone name ↔ ID mappings are cached (5 minutes). */
+export const ZONE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** How many recent journal entries cf_dns_undo searches for changes to revert. */
+export const UNDO_SCAN_LIMIT = 5_000;
+
+/** Cloudflare API requests allowed per window (per user, across all tokens). */
+export const RATE_LIMIT_REQUESTS = 1_200;
+
+/** Length of the Cloudflare API rate-limit window (5 minutes). */
+export const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000;
+
+/** How many times a request is retried after a 429 or 5xx response. */
+export const RETRY_MAX_ATTEMPTS = 4;
+
+/** Base delay for exponential backoff between retries. */
+export const RETRY_BASE_DELAY_MS = 500;
+
+/** Longest single wait between retries, including a server's Retry-After. */
+export const RETRY_MAX_DELAY_MS = 30_000;
+
+/** Default lifetime of cached read results: 0, so reads are live unless a TTL is configured; see services/cache.ts. */
+export const DEFAULT_CACHE_TTL_MS = 0;
+
+/** Most entries the in-memory read cache holds before evicting the oldest. */
+export const CACHE_MAX_ENTRIES = 500;
+
+/** How long the rest of an oversized response stays available to cf_dns_continue (30 minutes). */
+export const CONTINUATION_TTL_MS = 30 * 60 * 1000;
+
+/** Most oversized responses kept for cf_dns_continue before evicting the oldest. */
+export const CONTINUATION_MAX_STORED = 50;
+
+/** Shortest ID prefix max_output_chars may shorten record and zone IDs to. */
+export const MIN_SHORT_ID_LENGTH = 8;
+
+/** Default time an HTTP session may sit idle before it is closed (30 minutes); see services/sessions.ts. */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Most SSE events kept per HTTP session for Last-Event-ID resumption. */
+export const EVENT_STORE_MAX_EVENTS = 1_000;
+
+/** How often the Node HTTP server closes idle sessions (1 minute). */
+export const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Scopes granting tool access: read-only tools need dns:read, ADMIN_TOOLS
+ * dns:admin, and all others dns:write. See services/access.ts.
+ */
+export const TOOL_SCOPES = ["dns:read", "dns:write", "dns:admin"] as const;
+export type ToolScope = (typeof TOOL_SCOPES)[number];
+
+/** Tools that can remove or replace many records at once and so need dns:admin. */
+export const ADMIN_TOOLS = [
+  "cf_dns_bulk_delete",
+  "cf_dns_batch",
+  "cf_dns_apply",
+  "cf_dns_restore_snapshot",
+  "cf_dns_undo",
+] as const;
+
+/** Roles an API key can have; each grants its own scopes and those of the roles before it. */
+export const API_KEY_ROLES = ["read", "write", "admin"] as const;
+export type ApiKeyRole = (typeof API_KEY_ROLES)[number];
+
+/** Rule types understood by the policy engine; see services/policy.ts. */
+export const POLICY_RULE_TYPES = ["protect", "require_dry_run", "require_proxied", "ttl_range"] as const;
+export type PolicyRuleType = (typeof POLICY_RULE_TYPES)[number];
+
+/** How long a dry run satisfies a require_dry_run policy (30 minutes). */
+export const POLICY_PREVIEW_TTL_MS = 30 * 60 * 1000;
@@ -0,0 +1,101 @@
+/**
+ * Budget-aware output for list tools (`max_output_chars`).
+ *
+ * When the rendered result is longer than the budget, rows are degraded one
+ * step at a time until it fits, and the steps taken are reported in
+ * `degraded`:
+ *
+ *   1. drop_timestamps  → created_on / modified_on removed
+ *   2. short_ids        → IDs cut to the shortest unique prefix (min 8 chars)
+ *   3. collapse_rrsets  → records sharing name, type, TTL and proxy status
+ *                         merged into one row with `content` and `id` lists
+ *                         (records only)
+ *   4. summary          → rows replaced by a summary and a cf_dns_continue
+ *                         cursor for the full, undegraded rows
+ */
+import { MIN_SHORT_ID_LENGTH } from "../constants.js";
+import type { OutputFormat } from "../constants.js";
+import { renderOutput } from "./output.js";
+
+type Row = Record<string, unknown>;
+
+export type Degradation = "drop_timestamps" | "short_ids" | "collapse_rrsets" | "summary";
+
+export interface FitOptions {
+  /** Key of the row array in the output, e.g. "records". */
+  rowsKey: string;
+  /** Whether rows are DNS records and may be collapsed into RRsets. */
+  rrsets: boolean;
+  /** Builds the summary used by the last step. */
+  summarize: (rows: Row[]) => unknown;
+  /** Stores the full output and returns a continuation cursor for it. */
+  cursorFor: (text: string) => string;
+}
+
+function dropTimestamps(rows: Row[]): Row[] {
+  return rows.map(({ created_on: _c, modified_on: _m, ...rest }) => rest);
+}
+
+/** Shortest prefix length (at least MIN_SHORT_ID_LENGTH) that keeps every ID unique. */
+function uniquePrefixLength(ids: string[]): number {
+  const longest = Math.max(0, ...ids.map((id) => id.length));
+  for (let length = MIN_SHORT_ID_LENGTH; length < longest; length++) {
+    if (new Set(ids.map((id) => id.slice(0, length))).size === new Set(ids).size) return length;
+  }
+  return longest;
+}
+
+function shortenIds(rows: Row[]): Row[] {
+  const length = uniquePrefixLength(rows.map((r) => String(r.id ?? "")));
+  return rows.map((r) => (r.id === undefined ? r : { ...r, id: String(r.id).slice(0, length) }));
+}
+
+function collapseRrsets(rows: Row[]): Row[] {
+  const groups = new Map<string, Row[]>();
+  for (const r of rows) {
+    const key = JSON.stringify([r.type, String(r.name ?? "").toLowerCase(), r.ttl, r.proxied]);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return [...groups.values()].map((group) => {
+    if (group.length === 1) return group[0];
+    const { id: _id, content: _content, ...shared } = group[0];
+    return { ...shared, content: group.map((r) => r.content), id: group.map((r) => r.id) };
+  });
+}
+
+/**
+ * Renders `output` within `maxChars` by degrading its rows step by step.
+ * Without a budget, or when the output already fits, it is rendered as is.
+ */
+export function fitOutput(output: Row, format: OutputFormat, maxChars: number | undefined, options: FitOptions): string {
+  const full = renderOutput(output, format);
+  if (maxChars === undefined || full.length <= maxChars) return full;
+
+  const original = (output[options.rowsKey] as Row[] | undefined) ?? [];
+  const steps: Array<[Degradation, (rows: Row[]) => Row[]]> = [
+    ["drop_timestamps", dropTimestamps],
+    ["short_ids", shortenIds],
+    ...(options.rrsets ? [["collapse_rrsets", collapseRrsets] as [Degradation, (rows: Row[]) => Row[]]] : []),
+  ];
+
+  const degraded: Degradation[] = [];
+  let rows = original;
+  for (const [step, apply] of steps) {
+    rows = apply(rows);
+    degraded.push(step);
+    const text = renderOutput({ ...output, degraded, [options.rowsKey]: rows }, format);
+    if (text.length <= maxChars) return text;
+  }
+
+  const { [options.rowsKey]: _rows, ...meta } = output;
+  return renderOutput(
+    {
+      ...meta,
+      degraded: [...degraded, "summary"],
+      summary: options.summarize(original),
+      cursor: options.cursorFor(full),
+      note: `The ${options.rowsKey} did not fit in ${maxChars} characters. Pass cursor to cf_dns_continue for the full list, or narrow the request.`,
+    },
+    format
+  );
+}
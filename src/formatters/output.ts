@@ -0,0 +1,117 @@
+/**
+ * Output serializers for the read tools' `format` option.
+ *
+ * Pretty JSON repeats every key for every row and spends tokens on
+ * indentation. The tabular formats print the keys once:
+ *
+ *   json         → pretty-printed JSON (default)
+ *   json_compact → JSON without whitespace
+ *   csv          → RFC 4180 CSV; other top-level fields become `# key: value` lines
+ *   table        → aligned plain-text columns
+ *   tabular      → header-once rows, TOON-style:
+ *                    records[2]{id,type,name,content,ttl}:
+ *                      a1,A,www.example.com,203.0.113.10,auto
+ *                      b2,CNAME,api.example.com,lb.example.net,300
+ *
+ * For the three row formats, the first array of objects in the output is
+ * printed as rows (a single object such as `record` becomes one row), and
+ * every other top-level field is printed above it as `key: <compact JSON>`.
+ */
+import type { OutputFormat } from "../constants.js";
+
+type Row = Record<string, unknown>;
+
+function isRow(value: unknown): value is Row {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Column names across all rows, in first-seen order. */
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) for (const key of Object.keys(row)) columns.add(key);
+  return [...columns];
+}
+
+/** A cell's text: scalars as-is, nested values as compact JSON. */
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Absent values are left empty; an empty string is written as "". */
+function tabularCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = cellText(value);
+  return text === "" || /[",\r\n]/.test(text) || text !== text.trim() ? JSON.stringify(text) : text;
+}
+
+function tableCell(value: unknown): string {
+  return cellText(value).replace(/\s*[\r\n]+\s*/g, " ");
+}
+
+/** Splits an output object into its row set and the remaining fields. */
+function splitRows(output: Row): { key: string | null; rows: Row[]; meta: Row } {
+  const entries = Object.entries(output);
+  let rowsAt = entries.findIndex(([, v]) => Array.isArray(v) && v.every(isRow));
+  if (rowsAt < 0) rowsAt = entries.findIndex(([, v]) => isRow(v));
+  if (rowsAt < 0) return { key: null, rows: [], meta: output };
+
+  const [key, value] = entries[rowsAt];
+  const meta = Object.fromEntries(entries.filter((_, i) => i !== rowsAt));
+  return { key, rows: Array.isArray(value) ? (value as Row[]) : [value as Row], meta };
+}
+
+function metaLines(meta: Row, prefix: string): string[] {
+  return Object.entries(meta)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${prefix}${k}: ${typeof v === "string" ? v : JSON.stringify(v)}`);
+}
+
+function renderCsv(rows: Row[]): string[] {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) return [];
+  return [columns.map(csvCell).join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(","))];
+}
+
+function renderTable(rows: Row[]): string[] {
+  const columns = columnsOf(rows);
+  if (columns.length === 0) return ["(no rows)"];
+  const cells = rows.map((row) => columns.map((c) => tableCell(row[c])));
+  const widths = columns.map((c, i) => Math.max(c.length, ...cells.map((r) => r[i].length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join("  ").trimEnd();
+  return [line(columns), line(widths.map((w) => "-".repeat(w))), ...cells.map(line)];
+}
+
+function renderTabular(key: string, rows: Row[]): string[] {
+  const columns = columnsOf(rows);
+  return [
+    `${key}[${rows.length}]{${columns.join(",")}}:`,
+    ...rows.map((row) => `  ${columns.map((c) => tabularCell(row[c])).join(",")}`),
+  ];
+}
+
+/**
+ * Serializes a tool's output object in the requested format.
+ */
+export function renderOutput(output: Row, format: OutputFormat = "json"): string {
+  if (format === "json") return JSON.stringify(output, null, 2);
+  if (format === "json_compact") return JSON.stringify(output);
+
+  const { key, rows, meta } = splitRows(output);
+  if (key === null) return JSON.stringify(output);
+
+  switch (format) {
+    case "csv":
+      return [...metaLines(meta, "# "), ...renderCsv(rows)].join("\n");
+    case "table":
+      return [...metaLines(meta, ""), ...(Object.keys(meta).length > 0 ? [""] : []), ...renderTable(rows)].join("\n");
+    case "tabular":
+      return [...metaLines(meta, ""), ...renderTabular(key, rows)].join("\n");
+  }
+}
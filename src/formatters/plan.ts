@@ -0,0 +1,79 @@
+/**
+ * Plan formatters — render change sets and apply results for review.
+ */
+import { formatRecords } from "./record.js";
+import type { StoredPlan } from "../services/plans.js";
+import type { BatchResult } from "../services/cloudflare.js";
+import type { RecordChangeSet } from "../utils/diff.js";
+
+/**
+ * Concise, reviewable rendering of a change set: new records, changed
+ * fields (before/after) and records to delete.
+ */
+export function formatChangeSet(changes: RecordChangeSet): Record<string, unknown> {
+  return {
+    create: changes.creates.map((c) => ({
+      type: c.type,
+      name: c.name,
+      content: c.content,
+      ttl: c.ttl === 1 ? "auto" : c.ttl,
+      ...(c.proxied !== undefined ? { proxied: c.proxied } : {}),
+      ...(c.priority !== undefined ? { priority: c.priority } : {}),
+    })),
+    update: changes.updates.map((u) => ({
+      record_id: u.record_id,
+      type: u.before.type,
+      name: u.before.name,
+      before: Object.fromEntries(Object.keys(u.patch).map((k) => [k, u.before[k] ?? null])),
+      after: u.patch,
+    })),
+    delete: changes.deletes.map((d) => ({
+      record_id: d.id,
+      type: d.type,
+      name: d.name,
+      content: d.content,
+    })),
+  };
+}
+
+/**
+ * Summary + changes + expiry for a stored plan.
+ */
+export function formatPlan(plan: StoredPlan): Record<string, unknown> {
+  const { changes } = plan;
+  return {
+    plan_id: plan.id,
+    summary: {
+      create: changes.creates.length,
+      update: changes.updates.length,
+      delete: changes.deletes.length,
+      unchanged: changes.unchanged,
+    },
+    changes: formatChangeSet(changes),
+    ...(plan.policy_conflicts.length > 0 ? { policy_conflicts: plan.policy_conflicts } : {}),
+    expires_at: new Date(plan.expires_at).toISOString(),
+  };
+}
+
+/** True when a plan contains at least one operation. */
+export function planHasChanges(plan: StoredPlan): boolean {
+  const { creates, updates, deletes } = plan.changes;
+  return creates.length + updates.length + deletes.length > 0;
+}
+
+/**
+ * Counts and concise records for an applied plan.
+ */
+export function formatApplyResult(plan: StoredPlan, result: BatchResult | null): Record<string, unknown> {
+  if (!result) return { plan_id: plan.id, applied: 0, message: "Nothing to apply." };
+  return {
+    plan_id: plan.id,
+    deleted: result.deletes.length,
+    updated: result.patches.length,
+    created: result.posts.length,
+    records: {
+      updated: formatRecords(result.patches, true),
+      created: formatRecords(result.posts, true),
+    },
+  };
+}
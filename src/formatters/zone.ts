@@ -42,3 +42,19 @@ export function formatZones(
 ): Array<ConciseZone | Record<string, unknown>> {
   return zones.map((z) => formatZone(z, concise));
 }
+
+/**
+ * Builds a status summary and name list for a set of zones.
+ */
+export function buildZoneSummary(zones: Record<string, unknown>[]): {
+  total: number;
+  by_status: Record<string, number>;
+  names: string[];
+} {
+  const byStatus: Record<string, number> = {};
+  for (const z of zones) {
+    const status = String(z.status ?? "unknown");
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+  }
+  return { total: zones.length, by_status: byStatus, names: zones.map((z) => String(z.name ?? "")) };
+}
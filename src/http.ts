@@ -0,0 +1,172 @@
+/**
+ * Streamable HTTP app, shared by the Node HTTP server (index.ts) and the
+ * Cloudflare Worker (worker.ts).
+ *
+ * Built on Web-standard Request/Response only, so the same Hono app runs
+ * under @hono/node-server and natively on Workers. Sessions are stateful or
+ * stateless depending on MCP_SESSION_MODE; see services/sessions.ts.
+ */
+
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { TOOL_SCOPES } from "./constants.js";
+import { createServer } from "./server.js";
+import { buildAuthInfo, getBearerToken, validateApiKey, validateBearerToken } from "./services/auth.js";
+import {
+  InvalidTokenError,
+  bearerChallenge,
+  getOAuthConfig,
+  protectedResourceMetadata,
+  resourceUrl,
+  verifyAccessToken,
+} from "./services/oauth.js";
+import { expireIdleSessions, getSession, getSessionMode, openSession } from "./services/sessions.js";
+import type { SessionMode } from "./services/sessions.js";
+
+export interface HttpAppOptions {
+  /** Session mode used when MCP_SESSION_MODE is unset. */
+  defaultSessionMode: SessionMode;
+}
+
+/** JSON-RPC error body for failures outside any request. */
+function jsonRpcError(code: number, message: string) {
+  return { jsonrpc: "2.0" as const, error: { code, message }, id: null };
+}
+
+/**
+ * Authenticates a request to /mcp and returns the caller's auth info, or the
+ * error response to send. With OAuth enabled the bearer token must be a
+ * valid access token; otherwise MCP_API_TOKEN (already checked by the
+ * middleware) or the X-API-Key applies.
+ */
+async function authenticate(c: Context): Promise<AuthInfo | Response> {
+  const oauth = getOAuthConfig();
+  if (oauth) {
+    const resource = resourceUrl(oauth, c.req.url);
+    const match = /^Bearer\s+(.+)$/i.exec(c.req.header("Authorization") ?? "");
+    if (!match) {
+      c.header("WWW-Authenticate", bearerChallenge(resource));
+      return c.json({ error: "Unauthorized. An OAuth access token is required." }, 401);
+    }
+    let authInfo: AuthInfo;
+    try {
+      authInfo = await verifyAccessToken(oauth, match[1], resource);
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError)) throw error;
+      c.header("WWW-Authenticate", bearerChallenge(resource, { code: "invalid_token", description: error.message }));
+      return c.json({ error: `Invalid access token: ${error.message}` }, 401);
+    }
+    if (!TOOL_SCOPES.some((scope) => authInfo.scopes.includes(scope))) {
+      const scope = TOOL_SCOPES.join(" ");
+      const description = `The access token grants none of the scopes ${scope}.`;
+      c.header("WWW-Authenticate", bearerChallenge(resource, { code: "insufficient_scope", description, scope }));
+      return c.json({ error: description }, 403);
+    }
+    return authInfo;
+  }
+
+  // With MCP_API_TOKEN set the middleware has already accepted the bearer
+  if (getBearerToken()) {
+    const header = c.req.header("Authorization")!;
+    return buildAuthInfo(validateBearerToken(header)!, header.replace(/^Bearer\s+/i, ""));
+  }
+
+  // X-API-Key auth (only reached when bearer auth is not configured)
+  const apiKeyHeader = c.req.header("X-API-Key") ?? null;
+  const principal = validateApiKey(apiKeyHeader);
+  if (!principal) {
+    return c.json({ error: "Unauthorized. Provide an X-API-Key header." }, 401);
+  }
+  return buildAuthInfo(principal, apiKeyHeader!);
+}
+
+export function createHttpApp(options: HttpAppOptions): Hono {
+  const app = new Hono();
+
+  // Bearer token middleware — when MCP_API_TOKEN is set, every request must
+  // carry it or a scoped API key in an Authorization: Bearer header. If
+  // unset, pass through.
+  app.use("/*", async (c, next) => {
+    // OAuth replaces the static token; /mcp verifies access tokens itself
+    if (getOAuthConfig()) {
+      await next();
+      return;
+    }
+    if (!getBearerToken()) {
+      // Bearer auth not configured — fall through to per-route auth
+      await next();
+      return;
+    }
+    if (!validateBearerToken(c.req.header("Authorization") ?? null)) {
+      return c.json({ error: "Unauthorized" }, 401);
+    }
+    await next();
+  });
+
+  // Health check
+  app.get("/health", (c) => c.json({ status: "ok", server: "cloudflare-dns-mcp-server" }));
+
+  // Protected-resource metadata (RFC 9728), when OAuth is enabled
+  app.get("/.well-known/oauth-protected-resource/*", (c) => {
+    const oauth = getOAuthConfig();
+    if (!oauth) return c.notFound();
+    return c.json(protectedResourceMetadata(oauth, resourceUrl(oauth, c.req.url)));
+  });
+
+  // MCP endpoint — Streamable HTTP
+  app.on(["POST", "GET", "DELETE"], "/mcp", async (c) => {
+    const authInfo = await authenticate(c);
+    if (authInfo instanceof Response) return authInfo;
+
+    if (getSessionMode(options.defaultSessionMode) === "stateless") {
+      if (c.req.method !== "POST") {
+        return c.json(jsonRpcError(-32000, "Method not allowed: this server runs in stateless mode."), 405);
+      }
+      // Create a fresh transport + server per request. With JSON responses,
+      // handleRequest resolves once every reply has been written.
+      const server = createServer();
+      const transport = new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+        enableJsonResponse: true,
+      });
+
+      await server.connect(transport);
+      try {
+        // The transport passes authInfo to tool handlers as the caller identity
+        return await transport.handleRequest(c.req.raw, { authInfo });
+      } finally {
+        await server.close();
+      }
+    }
+
+    // Stateful: route to the session named in Mcp-Session-Id, or open one
+    await expireIdleSessions();
+    const sessionId = c.req.header("Mcp-Session-Id");
+    if (sessionId) {
+      const session = getSession(sessionId, authInfo.clientId);
+      if (!session) return c.json(jsonRpcError(-32001, "Session not found"), 404);
+      return session.transport.handleRequest(c.req.raw, { authInfo });
+    }
+
+    if (c.req.method !== "POST") {
+      return c.json(jsonRpcError(-32000, "Bad Request: Mcp-Session-Id header is required"), 400);
+    }
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(jsonRpcError(-32700, "Parse error"), 400);
+    }
+    const messages = Array.isArray(body) ? body : [body];
+    if (!messages.some(isInitializeRequest)) {
+      return c.json(jsonRpcError(-32000, "Bad Request: Mcp-Session-Id header is required"), 400);
+    }
+    const transport = await openSession(createServer(), authInfo.clientId);
+    return transport.handleRequest(c.req.raw, { authInfo, parsedBody: body });
+  });
+
+  return app;
+}
@@ -4,28 +4,55 @@
  *
  * Supports two transport modes:
  *   TRANSPORT=stdio  (default) — for Claude Desktop and local MCP clients
- *   TRANSPORT=http   — Hono-based Streamable HTTP for remote access / Workers
+ *   TRANSPORT=http   — Hono-based Streamable HTTP for remote access
+ *
+ * The Cloudflare Worker entry point is worker.ts.
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { Hono } from "hono";
 import { createServer } from "./server.js";
-import { validateToken } from "./services/cloudflare.js";
-import { getBearerToken, validateApiKey, validateBearerToken } from "./services/auth.js";
-
-// ─── stdio transport ─────────────────────────────────────────────
-
-async function runStdio(): Promise<void> {
-  console.error("cloudflare-dns-mcp-server: starting in stdio mode...");
+import { createHttpApp } from "./http.js";
+import { validateProfiles } from "./services/cloudflare.js";
+import { getBearerToken, getScopedKeys } from "./services/auth.js";
+import { getOAuthConfig } from "./services/oauth.js";
+import { getPolicies } from "./services/policy.js";
+import { expireIdleSessions, getSessionMode } from "./services/sessions.js";
+import { SESSION_SWEEP_INTERVAL_MS } from "./constants.js";
+
+// ─── Startup checks ──────────────────────────────────────────────
+
+/** Verifies every profile's API token; exits when any of them fails. */
+async function verifyProfiles(): Promise<void> {
+  try {
+    for (const info of await validateProfiles()) {
+      console.error(`  ✓ API token verified for profile '${info.profile}' (id: ${info.id}, status: ${info.status})`);
+    }
+  } catch (err) {
+    console.error(`  ✗ ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
 
+/** Loads the record policies; exits when the configuration is invalid. */
+function verifyPolicies(): void {
   try {
-    const tokenInfo = await validateToken();
-    console.error(`  ✓ API token verified (id: ${tokenInfo.id}, status: ${tokenInfo.status})`);
+    const rules = getPolicies();
+    if (rules.length > 0) {
+      console.error(`  ✓ ${rules.length} record policy rule(s): ${rules.map((r) => `${r.name} (${r.type})`).join(", ")}`);
+    }
   } catch (err) {
     console.error(`  ✗ ${err instanceof Error ? err.message : String(err)}`);
     process.exit(1);
   }
+}
+
+// ─── stdio transport ─────────────────────────────────────────────
+
+async function runStdio(): Promise<void> {
+  console.error("cloudflare-dns-mcp-server: starting in stdio mode...");
+
+  await verifyProfiles();
+  verifyPolicies();
 
   const server = createServer();
   const transport = new StdioServerTransport();
@@ -39,93 +66,29 @@ async function runHttp(): Promise<void> {
   const port = parseInt(process.env.PORT || "8787", 10);
   console.error(`cloudflare-dns-mcp-server: starting in HTTP mode on port ${port}...`);
 
-  try {
-    const tokenInfo = await validateToken();
-    console.error(`  ✓ API token verified (id: ${tokenInfo.id}, status: ${tokenInfo.status})`);
-  } catch (err) {
-    console.error(`  ✗ ${err instanceof Error ? err.message : String(err)}`);
-    process.exit(1);
-  }
-
-  const app = new Hono();
+  await verifyProfiles();
+  verifyPolicies();
 
-  // Bearer token middleware — when MCP_API_TOKEN is set, every request must
-  // carry a matching Authorization: Bearer header. If unset, pass through.
-  app.use("/*", async (c, next) => {
-    const result = validateBearerToken(c.req.header("Authorization") ?? null);
-    if (result === null) {
-      // Bearer auth not configured — fall through to per-route auth
-      await next();
-      return;
-    }
-    if (!result) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
-    await next();
-  });
-
-  // Health check
-  app.get("/health", (c) => c.json({ status: "ok", server: "cloudflare-dns-mcp-server" }));
-
-  // MCP endpoint — Streamable HTTP
-  app.post("/mcp", async (c) => {
-    // X-API-Key auth (only reached when bearer auth is not configured)
-    if (!getBearerToken()) {
-      const apiKeyHeader = c.req.header("X-API-Key") ?? null;
-      const apiKeyQuery = new URL(c.req.url).searchParams.get("api_key");
-
-      if (!validateApiKey(apiKeyHeader, apiKeyQuery)) {
-        return c.json({ error: "Unauthorized. Provide X-API-Key header or ?api_key= query parameter." }, 401);
-      }
-    }
-
-    // Create a fresh transport + server per request (stateless)
-    const server = createServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined, // stateless
-      enableJsonResponse: true,
-    });
-
-    const body = await c.req.json();
-
-    // We need to use the raw Node.js req/res for the transport
-    // In Hono + Node, we can access them via c.env
-    const nodeReq = (c.env as Record<string, unknown>)?.incoming as
-      | import("node:http").IncomingMessage
-      | undefined;
-    const nodeRes = (c.env as Record<string, unknown>)?.outgoing as
-      | import("node:http").ServerResponse
-      | undefined;
-
-    if (nodeReq && nodeRes) {
-      nodeRes.on("close", () => transport.close());
-      await server.connect(transport);
-      await transport.handleRequest(nodeReq, nodeRes, body);
-      return undefined as unknown as Response;
-    }
-
-    // Fallback: process the JSON-RPC request manually
-    // This path handles Workers/non-Node environments
-    await server.connect(transport);
-
-    // For environments without raw Node req/res, we process via a different path
-    // The transport needs Node IncomingMessage/ServerResponse, so for Workers
-    // we need a different approach. For now, return method not allowed.
-    return c.json(
-      { error: "HTTP transport requires Node.js runtime. Use stdio for Workers or deploy with node_compat." },
-      501
-    );
-  });
+  const sessionMode = getSessionMode("stateful");
+  const scopedKeys = getScopedKeys();
+  const app = createHttpApp({ defaultSessionMode: "stateful" });
+  setInterval(() => void expireIdleSessions(), SESSION_SWEEP_INTERVAL_MS).unref();
 
   // Start the Node.js HTTP server using Hono's serve helper
   const { serve } = await import("@hono/node-server");
   serve({ fetch: app.fetch, port }, () => {
-    if (getBearerToken()) {
+    const oauth = getOAuthConfig();
+    if (oauth) {
+      console.error(`  ✓ OAuth enabled: access tokens from ${oauth.issuer} (MCP_API_TOKEN and X-API-Key are ignored)`);
+    } else if (getBearerToken()) {
       console.error("  ✓ Bearer token auth enabled (MCP_API_TOKEN is set)");
     } else {
       console.error("  ⚠ Bearer token auth disabled (no MCP_API_TOKEN)");
     }
-    console.error(`  ✓ MCP server running at http://localhost:${port}/mcp`);
+    if (scopedKeys.length > 0) {
+      console.error(`  ✓ ${scopedKeys.length} scoped API key(s): ${scopedKeys.map((k) => `${k.name} (${k.role})`).join(", ")}`);
+    }
+    console.error(`  ✓ MCP server running at http://localhost:${port}/mcp (${sessionMode} sessions)`);
     console.error(`  ✓ Health check at http://localhost:${port}/health`);
   });
 }
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { ZoneIdentifierSchema, OutputFormatSchema } from "./common.js";
+import { LINT_RULES } from "../utils/lint.js";
+
+export const AuditZoneSchema = ZoneIdentifierSchema.extend({
+  rules: z
+    .array(z.enum(LINT_RULES))
+    .min(1)
+    .optional()
+    .describe(`Rules to run (default: all). One or more of: ${LINT_RULES.join(", ")}.`),
+  min_severity: z
+    .enum(["error", "warning", "info"])
+    .default("info")
+    .describe("Only report findings at or above this severity (default: info — everything)."),
+})
+  .merge(OutputFormatSchema)
+  .strict();
+
+export type AuditZoneInput = z.infer<typeof AuditZoneSchema>;
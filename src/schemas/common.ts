@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { DEFAULT_PER_PAGE, DNS_RECORD_TYPES } from "../constants.js";
+import { CHARACTER_LIMIT, DEFAULT_PER_PAGE, DNS_RECORD_TYPES, OUTPUT_FORMATS } from "../constants.js";
 
 /** Shared concise/details flags used by all read tools. */
 export const OutputFlagsSchema = z.object({
@@ -13,6 +13,32 @@ export const OutputFlagsSchema = z.object({
     .describe("Include all Cloudflare metadata (tags, meta, settings). Overrides concise when true."),
 });
 
+/** Output serialization shared by all read tools. */
+export const OutputFormatSchema = z.object({
+  format: z
+    .enum(OUTPUT_FORMATS)
+    .default("json")
+    .describe(
+      "Output format: json (default, pretty), json_compact (no whitespace), csv, table (aligned text), " +
+        "or tabular (keys printed once, then one comma-separated line per row — the most token-efficient for lists)."
+    ),
+});
+
+/** Output size budget for list tools; see formatters/adaptive.ts. */
+export const OutputBudgetSchema = z.object({
+  max_output_chars: z
+    .number()
+    .int()
+    .min(500)
+    .max(CHARACTER_LIMIT)
+    .optional()
+    .describe(
+      "Character budget for the response. If the result is longer, it is degraded step by step until it fits: " +
+        "drop created_on/modified_on, shorten IDs to unique prefixes, collapse identical RRsets, and finally " +
+        "return a summary plus a cf_dns_continue cursor. The steps applied are listed in `degraded`."
+    ),
+});
+
 /** Shared pagination schema. */
 export const PaginationSchema = z.object({
   page: z
@@ -33,11 +59,41 @@ export const PaginationSchema = z.object({
 /** DNS record type enum for filtering and creation. */
 export const DnsRecordTypeSchema = z.enum(DNS_RECORD_TYPES);
 
-/** Zone identifier — either zone_id or zone_name. */
-export const ZoneIdentifierSchema = z.object({
+/** Credential profile selection shared by all tools that call the API. */
+export const ProfileSchema = z.object({
+  profile: z
+    .string()
+    .optional()
+    .describe(
+      "Credential profile (from CLOUDFLARE_PROFILES) to use. Omit to use the profile whose account owns the " +
+        "zone, or the default profile when no zone is given."
+    ),
+});
+
+/** Zone identifier — either zone_id or zone_name — plus the optional profile. */
+export const ZoneIdentifierSchema = ProfileSchema.extend({
   zone_id: z
     .string()
+    .optional()
     .describe("Cloudflare Zone ID (32-char hex). Required unless zone_name is provided."),
+  zone_name: z
+    .string()
+    .optional()
+    .describe(
+      "Domain name instead of zone_id, e.g. 'example.com'. Any FQDN inside the zone " +
+        "(e.g. 'api.example.com') resolves to the nearest enclosing zone."
+    ),
+});
+
+/** Dry-run flag shared by all write tools. */
+export const DryRunSchema = z.object({
+  dry_run: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Preview only: validate, fetch current state and return a before/after diff with conflicts. " +
+        "Nothing is written (default: false)."
+    ),
 });
 
 /** Random sampling flag. */
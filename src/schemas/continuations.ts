@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const ContinueSchema = z
+  .object({
+    cursor: z
+      .string()
+      .min(1)
+      .describe("Continuation cursor from the footer of a previous oversized response."),
+  })
+  .strict();
+
+export type ContinueInput = z.infer<typeof ContinueSchema>;
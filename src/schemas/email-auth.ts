@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { ZoneIdentifierSchema, DryRunSchema } from "./common.js";
+
+const domainField = z
+  .string()
+  .optional()
+  .describe("Domain to check within the zone, e.g. 'example.com' or 'mail.example.com' (default: the zone apex).");
+
+export const EmailAuthCheckSchema = ZoneIdentifierSchema.extend({
+  domain: domainField,
+  dkim_selectors: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("DKIM selectors to check, e.g. ['google', 's1']. Default: every selector found under _domainkey."),
+}).strict();
+
+export type EmailAuthCheckInput = z.infer<typeof EmailAuthCheckSchema>;
+
+const PolicySchema = z.enum(["none", "quarantine", "reject"]);
+
+const SpfInputSchema = z
+  .object({
+    ip4: z.array(z.string()).optional().describe("IPv4 addresses or CIDR ranges allowed to send."),
+    ip6: z.array(z.string()).optional().describe("IPv6 addresses or CIDR ranges allowed to send."),
+    include: z
+      .array(z.string())
+      .optional()
+      .describe("Domains whose SPF is included, e.g. ['_spf.google.com']. Each costs at least one lookup."),
+    a: z.boolean().optional().describe("Allow the domain's own A/AAAA addresses."),
+    mx: z.boolean().optional().describe("Allow the domain's MX hosts."),
+    all: z
+      .enum(["fail", "softfail", "neutral"])
+      .default("softfail")
+      .describe("Result for every other sender: fail (-all), softfail (~all, default) or neutral (?all)."),
+  })
+  .strict();
+
+const DmarcInputSchema = z
+  .object({
+    policy: PolicySchema.describe("p=: none (monitor), quarantine or reject."),
+    subdomain_policy: PolicySchema.optional().describe("sp=: policy for subdomains (default: same as policy)."),
+    pct: z.number().int().min(0).max(100).optional().describe("Percentage of failing mail the policy applies to (default: 100)."),
+    rua: z.array(z.string()).optional().describe("Aggregate report addresses, e.g. ['dmarc@example.com'] (mailto: is added)."),
+    ruf: z.array(z.string()).optional().describe("Forensic report addresses."),
+    adkim: z.enum(["r", "s"]).optional().describe("DKIM alignment: r (relaxed, default) or s (strict)."),
+    aspf: z.enum(["r", "s"]).optional().describe("SPF alignment: r (relaxed, default) or s (strict)."),
+  })
+  .strict();
+
+const DkimInputSchema = z
+  .object({
+    selector: z.string().min(1).describe("Selector, e.g. 'mail' → mail._domainkey.<domain>."),
+    key_type: z.enum(["rsa", "ed25519"]).default("rsa"),
+    public_key: z.string().min(1).describe("Base64 public key (PEM armour and line breaks are stripped)."),
+  })
+  .strict();
+
+export const EmailAuthSetSchema = ZoneIdentifierSchema.merge(DryRunSchema)
+  .extend({
+    domain: domainField,
+    spf: SpfInputSchema.optional().describe("Generate and set the SPF record at the domain."),
+    dmarc: DmarcInputSchema.optional().describe("Generate and set the DMARC record at _dmarc.<domain>."),
+    dkim: DkimInputSchema.optional().describe("Generate and set a DKIM key at <selector>._domainkey.<domain>."),
+    ttl: z.number().int().min(1).default(1).describe("TTL for created records (default: 1 = automatic)."),
+  })
+  .strict();
+
+export type EmailAuthSetInput = z.infer<typeof EmailAuthSetSchema>;
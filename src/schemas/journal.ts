@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { ZoneIdentifierSchema, DryRunSchema, OutputFormatSchema } from "./common.js";
+
+export const AuditLogSchema = ZoneIdentifierSchema.extend({
+  record_id: z.string().optional().describe("Only changes to this record."),
+  tool: z
+    .string()
+    .optional()
+    .describe("Only changes made by this tool, e.g. 'cf_dns_update_record'."),
+  since: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only changes at or after this ISO 8601 time, e.g. '2025-01-31T00:00:00Z'."),
+  until: z
+    .string()
+    .datetime({ offset: true })
+    .optional()
+    .describe("Only changes before this ISO 8601 time."),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .default(50)
+    .describe("Maximum entries to return, newest first (default: 50)."),
+})
+  .merge(OutputFormatSchema)
+  .strict();
+
+export type AuditLogInput = z.infer<typeof AuditLogSchema>;
+
+export const UndoSchema = ZoneIdentifierSchema.merge(DryRunSchema)
+  .extend({
+    change_id: z
+      .string()
+      .optional()
+      .describe("Undo this change (all records written by one tool call). Find IDs with cf_dns_audit_log."),
+    last: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .describe("Undo the N most recent changes to the zone that have not been undone yet."),
+    force: z
+      .boolean()
+      .default(false)
+      .describe(
+        "Overwrite records that were modified again since the change, and skip records that no longer " +
+          "exist or were already re-created (default: false — refuse instead)."
+      ),
+    confirmation_token: z
+      .string()
+      .optional()
+      .describe(
+        "Required when the undo deletes or patches records: omit to preview and get a token, then repeat the " +
+          "same call with it. Refused if the revert differs from the preview, or if one of those records changed since."
+      ),
+  })
+  .strict();
+
+export type UndoInput = z.infer<typeof UndoSchema>;
@@ -1,41 +1,62 @@
 import { z } from "zod";
 import {
   OutputFlagsSchema,
+  OutputFormatSchema,
+  OutputBudgetSchema,
   PaginationSchema,
   DnsRecordTypeSchema,
   ZoneIdentifierSchema,
   SamplingSchema,
+  DryRunSchema,
 } from "./common.js";
+import { validateRecordFields } from "../utils/validation.js";
+import type { RecordFields } from "../utils/validation.js";
+
+/** Reports type-aware content problems (see utils/validation.ts) as schema issues. */
+function checkRecordFields(rec: RecordFields, ctx: z.RefinementCtx): void {
+  for (const issue of validateRecordFields(rec)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [issue.field], message: issue.message });
+  }
+}
 
 // ─── List / Get ────────────────────────────────────────────────────
 
+/** Record filters shared by list and filter-driven bulk tools. */
+export const RecordFiltersSchema = z.object({
+  filter_type: DnsRecordTypeSchema.optional().describe(
+    "Filter by record type (A, AAAA, CNAME, MX, TXT, etc.)."
+  ),
+  filter_name: z
+    .string()
+    .optional()
+    .describe("Filter by record name (substring match, e.g. 'www' matches 'www.example.com')."),
+  filter_content: z
+    .string()
+    .optional()
+    .describe("Filter by record content/value (substring match)."),
+  filter_proxied: z
+    .boolean()
+    .optional()
+    .describe("Filter by proxy status (true = orange cloud, false = DNS only)."),
+  filter_comment: z
+    .string()
+    .optional()
+    .describe("Filter by comment (substring match)."),
+  filter_tag: z
+    .string()
+    .optional()
+    .describe("Filter by tag in 'name:value' format."),
+});
+
+export type RecordFilters = z.infer<typeof RecordFiltersSchema>;
+
 export const ListRecordsSchema = ZoneIdentifierSchema.merge(OutputFlagsSchema)
   .merge(PaginationSchema)
   .merge(SamplingSchema)
+  .merge(RecordFiltersSchema)
+  .merge(OutputFormatSchema)
+  .merge(OutputBudgetSchema)
   .extend({
-    filter_type: DnsRecordTypeSchema.optional().describe(
-      "Filter by record type (A, AAAA, CNAME, MX, TXT, etc.)."
-    ),
-    filter_name: z
-      .string()
-      .optional()
-      .describe("Filter by record name (substring match, e.g. 'www' matches 'www.example.com')."),
-    filter_content: z
-      .string()
-      .optional()
-      .describe("Filter by record content/value (substring match)."),
-    filter_proxied: z
-      .boolean()
-      .optional()
-      .describe("Filter by proxy status (true = orange cloud, false = DNS only)."),
-    filter_comment: z
-      .string()
-      .optional()
-      .describe("Filter by comment (substring match)."),
-    filter_tag: z
-      .string()
-      .optional()
-      .describe("Filter by tag in 'name:value' format."),
     order: z
       .enum(["type", "name", "content", "ttl", "proxied"])
       .optional()
@@ -56,11 +77,20 @@ export const GetRecordSchema = ZoneIdentifierSchema.extend({
   record_id: z.string().describe("DNS record ID (32-char hex)."),
 })
   .merge(OutputFlagsSchema)
+  .merge(OutputFormatSchema)
   .strict();
 
 export type GetRecordInput = z.infer<typeof GetRecordSchema>;
 
-export const ExportRecordsSchema = ZoneIdentifierSchema.strict();
+export const ExportRecordsSchema = ZoneIdentifierSchema.extend({
+  format: z
+    .enum(["bind", "json"])
+    .default("bind")
+    .describe(
+      "bind (default): BIND zonefile text. json: compact JSON of every record with comments, tags and " +
+        "structured data, which BIND export drops."
+    ),
+}).strict();
 
 export type ExportRecordsInput = z.infer<typeof ExportRecordsSchema>;
 
@@ -76,7 +106,8 @@ export const CreateRecordSchema = ZoneIdentifierSchema.extend({
     .string()
     .min(1)
     .describe(
-      "Record value. IP for A/AAAA, hostname for CNAME/MX, text for TXT, etc."
+      "Record value. IPv4 for A, IPv6 for AAAA, hostname for CNAME/MX/NS, text for TXT, " +
+        "'<flags> <tag> \"<value>\"' for CAA. Checked against the type before anything is sent."
     ),
   ttl: z
     .number()
@@ -111,7 +142,9 @@ export const CreateRecordSchema = ZoneIdentifierSchema.extend({
       "Structured data for complex record types (SRV, CAA, CERT, etc.). " +
         "E.g. SRV: {service: '_sip', proto: '_tcp', name: 'example.com', priority: 10, weight: 5, port: 5060, target: 'sip.example.com'}"
     ),
-}).strict();
+})
+  .merge(DryRunSchema)
+  .strict();
 
 export type CreateRecordInput = z.infer<typeof CreateRecordSchema>;
 
@@ -137,6 +170,13 @@ export const UpdateRecordSchema = ZoneIdentifierSchema.extend({
     .boolean()
     .optional()
     .describe("New proxy status. Only for A, AAAA, CNAME."),
+  priority: z
+    .number()
+    .int()
+    .min(0)
+    .max(65535)
+    .optional()
+    .describe("New priority (MX)."),
   comment: z
     .string()
     .max(100)
@@ -150,7 +190,9 @@ export const UpdateRecordSchema = ZoneIdentifierSchema.extend({
     .record(z.unknown())
     .optional()
     .describe("New structured data for complex record types."),
-}).strict();
+})
+  .merge(DryRunSchema)
+  .strict();
 
 export type UpdateRecordInput = z.infer<typeof UpdateRecordSchema>;
 
@@ -158,59 +200,192 @@ export type UpdateRecordInput = z.infer<typeof UpdateRecordSchema>;
 
 export const DeleteRecordSchema = ZoneIdentifierSchema.extend({
   record_id: z.string().describe("DNS record ID to delete (32-char hex)."),
-  confirm: z
-    .literal(true)
+  confirmation_token: z
+    .string()
+    .optional()
     .describe(
-      "Safety gate: must be explicitly set to true. " +
-        "This prevents accidental deletions. The record is permanently removed."
+      "Omit to preview the record and get a confirmation token. Pass the token from that preview " +
+        "to delete; it is single-use, expires after 5 minutes and is refused if the record changed."
     ),
-}).strict();
+})
+  .merge(DryRunSchema)
+  .strict();
 
 export type DeleteRecordInput = z.infer<typeof DeleteRecordSchema>;
 
+export const BulkDeleteSchema = ZoneIdentifierSchema.merge(RecordFiltersSchema)
+  .extend({
+    record_ids: z
+      .array(z.string())
+      .min(1)
+      .max(1000)
+      .optional()
+      .describe("Explicit record IDs to delete. Use either record_ids or filters, not both."),
+    confirmation_token: z
+      .string()
+      .optional()
+      .describe(
+        "Omit to preview the matched set and get a confirmation token. Pass the token, with the same " +
+          "selection, to delete. Refused if the matched records changed in any way since the preview."
+      ),
+  })
+  .strict();
+
+export type BulkDeleteInput = z.infer<typeof BulkDeleteSchema>;
+
 // ─── Bulk ──────────────────────────────────────────────────────────
 
+const RecordEntryFieldsSchema = z.object({
+  type: DnsRecordTypeSchema,
+  name: z.string().min(1),
+  content: z.string().min(1),
+  ttl: z.number().int().min(1).default(1),
+  proxied: z.boolean().optional(),
+  priority: z.number().int().min(0).max(65535).optional(),
+  comment: z.string().max(100).optional(),
+  tags: z.array(z.string()).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
+/** A single record definition, shared by bulk create and desired-state plans. */
+export const RecordEntrySchema = RecordEntryFieldsSchema.superRefine(checkRecordFields);
+
+export type RecordEntry = z.infer<typeof RecordEntrySchema>;
+
 export const BulkCreateSchema = ZoneIdentifierSchema.extend({
   records: z
-    .array(
-      z.object({
-        type: DnsRecordTypeSchema,
-        name: z.string().min(1),
-        content: z.string().min(1),
-        ttl: z.number().int().min(1).default(1),
-        proxied: z.boolean().optional(),
-        priority: z.number().int().min(0).max(65535).optional(),
-        comment: z.string().max(100).optional(),
-        tags: z.array(z.string()).optional(),
-        data: z.record(z.unknown()).optional(),
-      })
-    )
+    .array(RecordEntrySchema)
     .min(1)
     .max(100)
     .describe(
       "Array of DNS records to create (max 100 per call). Each record needs type, name, content at minimum."
     ),
-}).strict();
+})
+  .merge(DryRunSchema)
+  .strict();
 
 export type BulkCreateInput = z.infer<typeof BulkCreateSchema>;
 
+/** Update entry shared by bulk update and batch patches. */
+const RecordPatchSchema = z.object({
+  record_id: z.string().describe("DNS record ID to update."),
+  content: z.string().optional(),
+  name: z.string().optional(),
+  ttl: z.number().int().min(1).optional(),
+  proxied: z.boolean().optional(),
+  priority: z.number().int().min(0).max(65535).optional(),
+  comment: z.string().max(100).optional(),
+  tags: z.array(z.string()).optional(),
+  data: z.record(z.unknown()).optional(),
+});
+
 export const BulkUpdateSchema = ZoneIdentifierSchema.extend({
   records: z
-    .array(
-      z.object({
-        record_id: z.string().describe("DNS record ID to update."),
-        content: z.string().optional(),
-        name: z.string().optional(),
-        ttl: z.number().int().min(1).optional(),
-        proxied: z.boolean().optional(),
-        comment: z.string().max(100).optional(),
-        tags: z.array(z.string()).optional(),
-        data: z.record(z.unknown()).optional(),
-      })
-    )
+    .array(RecordPatchSchema)
     .min(1)
     .max(100)
     .describe("Array of DNS record updates (max 100 per call). Each needs record_id + fields to change."),
-}).strict();
+})
+  .merge(DryRunSchema)
+  .strict();
 
 export type BulkUpdateInput = z.infer<typeof BulkUpdateSchema>;
+
+export const BatchSchema = ZoneIdentifierSchema.extend({
+  deletes: z
+    .array(z.string())
+    .max(100)
+    .optional()
+    .describe("Record IDs to delete."),
+  patches: z
+    .array(RecordPatchSchema)
+    .max(100)
+    .optional()
+    .describe("Partial updates: record_id + fields to change."),
+  puts: z
+    .array(
+      RecordEntryFieldsSchema.extend({ record_id: z.string().describe("DNS record ID to overwrite.") })
+        .superRefine(checkRecordFields)
+    )
+    .max(100)
+    .optional()
+    .describe("Full overwrites: record_id + complete record (type, name, content, ...)."),
+  posts: z
+    .array(RecordEntrySchema)
+    .max(100)
+    .optional()
+    .describe("New records to create (same shape as cf_dns_bulk_create records)."),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe(
+      "Required when the batch has deletes, patches or puts: omit to preview and get a token, then repeat the " +
+        "exact same batch with it. Refused if any operation differs from the preview, or if a record being " +
+        "deleted, patched or overwritten changed since."
+    ),
+})
+  .merge(DryRunSchema)
+  .strict();
+
+export type BatchInput = z.infer<typeof BatchSchema>;
+
+// ─── Import ────────────────────────────────────────────────────────
+
+export const ImportRecordsSchema = ZoneIdentifierSchema.extend({
+  zonefile: z
+    .string()
+    .min(1)
+    .describe("BIND zonefile text. Supports $ORIGIN, $TTL, relative names, '@', multi-line (…) records and quoted TXT chunks."),
+  origin: z
+    .string()
+    .optional()
+    .describe("Initial $ORIGIN for relative names. Defaults to the zone's domain name."),
+  proxied: z
+    .boolean()
+    .default(false)
+    .describe("Proxy status applied to imported A/AAAA/CNAME records (default: false, DNS only)."),
+  apply: z
+    .boolean()
+    .default(false)
+    .describe(
+      "false (default): parse and preview only — nothing is written. " +
+        "true: create the records listed under 'to_create' in the preview; requires confirmation_token."
+    ),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe(
+      "Token from the preview, required with apply=true. Single-use, expires after 5 minutes, and refused " +
+        "if the records to create differ from the preview (different zonefile, or the zone changed)."
+    ),
+}).strict();
+
+export type ImportRecordsInput = z.infer<typeof ImportRecordsSchema>;
+
+// ─── Plan / Apply ──────────────────────────────────────────────────
+
+export const PlanSchema = ZoneIdentifierSchema.extend({
+  desired: z
+    .union([z.array(RecordEntrySchema), z.string().min(1)])
+    .describe(
+      "Desired record set for the zone. Either an array of record entries " +
+        "(same shape as cf_dns_bulk_create records) or a JSON/YAML document containing " +
+        "that array, optionally under a top-level 'records' key. Names may be relative ('www', '@')."
+    ),
+  prune: z
+    .boolean()
+    .default(true)
+    .describe("Delete live records that are not in the desired set (default: true). Set false to only create/update."),
+}).strict();
+
+export type PlanInput = z.infer<typeof PlanSchema>;
+
+export const ApplySchema = ZoneIdentifierSchema.extend({
+  plan_id: z.string().min(1).describe("Plan ID returned by cf_dns_plan."),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe("Token returned by cf_dns_plan with a plan that deletes or updates records; required to apply such a plan."),
+}).strict();
+
+export type ApplyInput = z.infer<typeof ApplySchema>;
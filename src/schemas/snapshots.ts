@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { ZoneIdentifierSchema, OutputFormatSchema, ProfileSchema } from "./common.js";
+
+export const SnapshotZoneSchema = ZoneIdentifierSchema.extend({
+  label: z
+    .string()
+    .max(100)
+    .optional()
+    .describe("Optional label, e.g. 'before MX migration'."),
+}).strict();
+
+export type SnapshotZoneInput = z.infer<typeof SnapshotZoneSchema>;
+
+export const ListSnapshotsSchema = ZoneIdentifierSchema.extend({
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe("Maximum snapshots to return, newest first (default: 20)."),
+})
+  .merge(OutputFormatSchema)
+  .strict();
+
+export type ListSnapshotsInput = z.infer<typeof ListSnapshotsSchema>;
+
+export const RestoreSnapshotSchema = ProfileSchema.extend({
+  snapshot_id: z.string().min(1).describe("Snapshot ID from cf_dns_snapshot_zone or cf_dns_list_snapshots."),
+  confirmation_token: z
+    .string()
+    .optional()
+    .describe(
+      "Omit to preview the restore plan and get a confirmation token. Pass the token with the same snapshot_id " +
+        "to apply that plan; a token issued for another snapshot is refused."
+    ),
+}).strict();
+
+export type RestoreSnapshotInput = z.infer<typeof RestoreSnapshotSchema>;
@@ -1,8 +1,20 @@
 import { z } from "zod";
-import { OutputFlagsSchema, PaginationSchema } from "./common.js";
+import { DEFAULT_PER_PAGE } from "../constants.js";
+import { OutputFlagsSchema, OutputFormatSchema, OutputBudgetSchema, PaginationSchema, ProfileSchema } from "./common.js";
 
 export const ListZonesSchema = OutputFlagsSchema.merge(PaginationSchema)
+  .merge(OutputFormatSchema)
+  .merge(OutputBudgetSchema)
+  .merge(ProfileSchema)
   .extend({
+    // The zones endpoint accepts 5–50 per page
+    per_page: z
+      .number()
+      .int()
+      .min(5)
+      .max(50)
+      .default(DEFAULT_PER_PAGE)
+      .describe(`Zones per page (default: ${DEFAULT_PER_PAGE}, min: 5, max: 50).`),
     filter_name: z
       .string()
       .optional()
@@ -29,9 +41,13 @@ export const GetZoneSchema = z
     zone_name: z
       .string()
       .optional()
-      .describe("Domain name (e.g. 'example.com'). Looked up if zone_id not provided."),
+      .describe(
+        "Domain name (e.g. 'example.com') or any FQDN inside the zone. Looked up if zone_id not provided."
+      ),
   })
   .merge(OutputFlagsSchema)
+  .merge(OutputFormatSchema)
+  .merge(ProfileSchema)
   .strict()
   .refine((data) => data.zone_id || data.zone_name, {
     message: "Provide either zone_id or zone_name.",
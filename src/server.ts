@@ -1,28 +1,103 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { runWithPrincipal, toolScope } from "./services/access.js";
+import type { Principal } from "./services/access.js";
+import { withThrottleReport, describeThrottling } from "./services/rate-limit.js";
+import { assertZoneRoutable, runWithRoutedProfile } from "./services/cloudflare.js";
+import { handleApiError } from "./utils/errors.js";
 import { registerZoneTools } from "./tools/zones.js";
 import { registerRecordReadTools } from "./tools/records-read.js";
 import { registerRecordWriteTools } from "./tools/records-write.js";
 import { registerBulkTools } from "./tools/records-bulk.js";
+import { registerImportTools } from "./tools/records-import.js";
+import { registerZoneSyncTools } from "./tools/zone-sync.js";
+import { registerSnapshotTools } from "./tools/snapshots.js";
+import { registerJournalTools } from "./tools/journal.js";
+import { registerZoneAuditTools } from "./tools/zone-audit.js";
+import { registerEmailAuthTools } from "./tools/email-auth.js";
+import { registerContinuationTools } from "./tools/continuations.js";
+
+/**
+ * Wraps every tool registered on `server` so that its handler:
+ *   - runs under the right credential profile — the `profile` argument, or
+ *     the profile owning the zone in zone_id/zone_name (services/profiles.ts)
+ *   - is refused unless the caller's credential carries the tool's scope
+ *     (services/access.ts; HTTP only — stdio calls have no auth info), and
+ *     runs with the caller's principal so zone rules apply; a zone the
+ *     rules refuse outright is refused before profile routing looks it up
+ *   - reports Cloudflare API throttling: when the rate limiter made the call
+ *     wait or retry, a note is appended to the tool output
+ */
+function instrumentTools(server: McpServer): void {
+  const register = server.registerTool.bind(server);
+  type Handler = (...args: unknown[]) => Promise<CallToolResult>;
+  type ZoneArgs = { profile?: string; zone_id?: string; zone_name?: string };
+  type ToolConfig = { annotations?: { readOnlyHint?: boolean } };
+
+  server.registerTool = ((name: string, config: ToolConfig, handler: Handler) => {
+    const scope = toolScope(name, config.annotations?.readOnlyHint ?? false);
+    return register(name, config, async (...args: unknown[]) => {
+      // Handlers with an input schema get (params, extra); others only (extra)
+      const params = (args.length > 1 ? args[0] : {}) as ZoneArgs;
+      const { authInfo } = args[args.length - 1] as { authInfo?: AuthInfo };
+      if (authInfo && !authInfo.scopes.includes(scope)) {
+        const text =
+          `Error: Forbidden. ${name} requires the '${scope}' scope; this credential has ` +
+          `${authInfo.scopes.length ? authInfo.scopes.join(", ") : "no scopes"}.`;
+        return { content: [{ type: "text" as const, text }], isError: true };
+      }
+      try {
+        const principal = authInfo?.extra?.principal as Principal | undefined;
+        const { result, report } = await withThrottleReport(() =>
+          runWithPrincipal(principal, authInfo?.clientId ?? "local", () => {
+            // Zone rules first, so a refused zone is never looked up in any profile
+            assertZoneRoutable(params);
+            return runWithRoutedProfile(params, () => handler(...args));
+          })
+        );
+        const note = describeThrottling(report);
+        return note ? { ...result, content: [...result.content, { type: "text" as const, text: note }] } : result;
+      } catch (error) {
+        return { content: [{ type: "text" as const, text: handleApiError(error) }], isError: true };
+      }
+    });
+  }) as typeof server.registerTool;
+}
 
 /**
  * Creates and configures the MCP server with all DNS tools registered.
  *
- * 10 tools total:
+ * 24 tools total:
  *   Read:  cf_dns_list_zones, cf_dns_get_zone, cf_dns_list_records,
- *          cf_dns_get_record, cf_dns_export_records
+ *          cf_dns_get_record, cf_dns_export_records, cf_dns_audit_zone,
+ *          cf_dns_continue
  *   Write: cf_dns_create_record, cf_dns_update_record, cf_dns_delete_record
- *   Bulk:  cf_dns_bulk_create, cf_dns_bulk_update
+ *   Bulk:  cf_dns_bulk_create, cf_dns_bulk_update, cf_dns_batch,
+ *          cf_dns_bulk_delete, cf_dns_import_records
+ *   Sync:  cf_dns_plan, cf_dns_apply
+ *   Snapshots: cf_dns_snapshot_zone, cf_dns_list_snapshots, cf_dns_restore_snapshot
+ *   Audit: cf_dns_audit_log, cf_dns_undo
+ *   Email: cf_dns_email_auth_check, cf_dns_email_auth_set
  */
 export function createServer(): McpServer {
   const server = new McpServer({
     name: "cloudflare-dns-mcp-server",
     version: "1.0.0",
   });
+  instrumentTools(server);
 
   registerZoneTools(server);
   registerRecordReadTools(server);
   registerRecordWriteTools(server);
   registerBulkTools(server);
+  registerImportTools(server);
+  registerZoneSyncTools(server);
+  registerSnapshotTools(server);
+  registerJournalTools(server);
+  registerZoneAuditTools(server);
+  registerEmailAuthTools(server);
+  registerContinuationTools(server);
 
   return server;
 }
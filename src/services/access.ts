@@ -0,0 +1,135 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ADMIN_TOOLS, API_KEY_ROLES, TOOL_SCOPES } from "../constants.js";
+import type { ApiKeyRole, ToolScope } from "../constants.js";
+import { matchesGlob } from "../utils/glob.js";
+
+/**
+ * Access control for HTTP callers.
+ *
+ * Every tool needs a scope (toolScope): dns:read for read-only tools,
+ * dns:admin for the tools that can remove or replace many records at once
+ * (ADMIN_TOOLS), dns:write for the rest. OAuth tokens carry scopes directly;
+ * API keys get them from their role:
+ *
+ *   read  → dns:read
+ *   write → dns:read, dns:write
+ *   admin → dns:read, dns:write, dns:admin
+ *
+ * An API key may also be limited to some zones. Zone rules are zone IDs or
+ * name globs (see utils/glob.ts); a zone is accessible when it matches no
+ * deny rule and, if there are allow rules, at least one of them. The
+ * principal and caller ID of the tool call in progress are kept in
+ * AsyncLocalStorage so zone checks, policy previews and confirmation tokens
+ * deep in the services can see them.
+ */
+
+/** An authenticated HTTP caller. */
+export interface Principal {
+  /** How the caller authenticated. */
+  kind: "bearer" | "api-key";
+  /** Name of the configured API key, or null for the single shared credential. */
+  name: string | null;
+  role: ApiKeyRole;
+  /** Zone IDs or name globs the caller is limited to; empty means all. */
+  allowZones: string[];
+  /** Zone IDs or name globs the caller may never access. */
+  denyZones: string[];
+}
+
+interface CallContext {
+  principal: Principal | undefined;
+  /** The credential's clientId, as recorded in the journal; "local" for stdio. */
+  caller: string;
+}
+
+const _call = new AsyncLocalStorage<CallContext>();
+
+/**
+ * Returns the scope a tool requires.
+ */
+export function toolScope(name: string, readOnly: boolean): ToolScope {
+  if ((ADMIN_TOOLS as readonly string[]).includes(name)) return "dns:admin";
+  return readOnly ? "dns:read" : "dns:write";
+}
+
+/**
+ * Returns the scopes a role grants.
+ */
+export function roleScopes(role: ApiKeyRole): ToolScope[] {
+  return TOOL_SCOPES.slice(0, API_KEY_ROLES.indexOf(role) + 1);
+}
+
+function matchesZone(rule: string, zoneId: string, zoneName: string | undefined): boolean {
+  if (rule === zoneId) return true;
+  return zoneName !== undefined && matchesGlob(rule, zoneName);
+}
+
+/**
+ * True when the principal has zone rules, so zone names must be looked up.
+ */
+export function hasZoneRules(principal: Principal | undefined): boolean {
+  return !!principal && (principal.allowZones.length > 0 || principal.denyZones.length > 0);
+}
+
+/**
+ * True when `principal` may access the zone. Without a principal (stdio,
+ * OAuth) every zone is accessible.
+ */
+export function zoneAllowed(principal: Principal | undefined, zoneId: string, zoneName?: string): boolean {
+  if (!principal) return true;
+  if (principal.denyZones.some((rule) => matchesZone(rule, zoneId, zoneName))) return false;
+  return principal.allowZones.length === 0 || principal.allowZones.some((rule) => matchesZone(rule, zoneId, zoneName));
+}
+
+/** Zone rules shaped like a zone ID; any other rule is a name glob. */
+const ZONE_ID_RULE = /^[0-9a-f]{32}$/i;
+
+function refusedWithout(principal: Principal, zoneId: string | undefined, zoneName: string | undefined): boolean {
+  const hit = (rule: string) => rule === zoneId || (zoneName !== undefined && matchesGlob(rule, zoneName));
+  if (principal.denyZones.some(hit)) return true;
+  if (principal.allowZones.length === 0 || principal.allowZones.some(hit)) return false;
+  // No allow rule matches what is known; one may still match the part that isn't
+  return !principal.allowZones.some((rule) =>
+    zoneId === undefined ? ZONE_ID_RULE.test(rule) : zoneName === undefined && !ZONE_ID_RULE.test(rule)
+  );
+}
+
+/**
+ * True when `principal`'s zone rules refuse the zone whatever its unknown
+ * half turns out to be: the name, when only `zoneId` is known, or the ID,
+ * when only candidate names are (every one must be refused). Lets a call be
+ * refused before any lookup; zones it cannot rule out are checked with
+ * zoneAllowed once resolved.
+ */
+export function zoneRuledOut(principal: Principal | undefined, zoneId: string | undefined, zoneNames: string[]): boolean {
+  if (!hasZoneRules(principal) || (zoneId === undefined && zoneNames.length === 0)) return false;
+  if (zoneNames.length === 0) return refusedWithout(principal!, zoneId, undefined);
+  return zoneNames.every((name) => refusedWithout(principal!, zoneId, name));
+}
+
+/**
+ * Returns the principal of the tool call in progress, if any.
+ */
+export function currentPrincipal(): Principal | undefined {
+  return _call.getStore()?.principal;
+}
+
+/**
+ * Returns the ID of the caller of the tool call in progress: the
+ * credential's clientId (see writeContext), or "local" outside HTTP.
+ */
+export function currentCaller(): string {
+  return _call.getStore()?.caller ?? "local";
+}
+
+/**
+ * Runs `fn` with `principal` as the current principal and `caller` as the
+ * current caller ID.
+ */
+export function runWithPrincipal<T>(
+  principal: Principal | undefined,
+  caller: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  return _call.run({ principal, caller }, fn);
+}
@@ -1,4 +1,11 @@
-import { randomBytes, timingSafeEqual } from "node:crypto";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { API_KEY_ROLES } from "../constants.js";
+import type { ApiKeyRole } from "../constants.js";
+import { roleScopes } from "./access.js";
+import type { Principal } from "./access.js";
+import { getEnv } from "./env.js";
 
 /**
  * Authentication for the HTTP transport.
@@ -12,50 +19,146 @@ import { randomBytes, timingSafeEqual } from "node:crypto";
  *
  * 2. **X-API-Key** (existing, local convenience):
  *    Set `CLOUDFLARE_DNS_MCP_API_KEY` env var (or let it auto-generate).
- *    Checked via `X-API-Key` header or `?api_key=` query param.
+ *    Checked via the `X-API-Key` header only; keys in the URL would end up
+ *    in proxy and access logs.
  *    Only enforced when bearer auth is *not* active.
+ *
+ * Either layer also accepts the scoped keys configured in
+ * `CLOUDFLARE_DNS_MCP_API_KEYS` (or `CLOUDFLARE_DNS_MCP_API_KEYS_FILE`):
+ *
+ *   {"ci": {"key": "<key>", "role": "write", "allow_zones": ["*.staging.example.com"]},
+ *    "auditor": {"key": "<key>", "role": "read", "deny_zones": ["example.com"]}}
+ *
+ * A successful check returns the caller's principal (see access.ts); the
+ * shared MCP_API_TOKEN and CLOUDFLARE_DNS_MCP_API_KEY are admins over every
+ * zone.
  */
 
+// ─── Scoped API keys (CLOUDFLARE_DNS_MCP_API_KEYS) ──────────────
+
+interface ApiKeyConfig {
+  key: string;
+  role: ApiKeyRole;
+  allow_zones?: string[];
+  deny_zones?: string[];
+}
+
+interface ScopedKey {
+  key: string;
+  name: string;
+  role: ApiKeyRole;
+  allowZones: string[];
+  denyZones: string[];
+}
+
+let _scopedKeys: ScopedKey[] | null = null;
+
+function parseApiKeys(json: string, source: string): ScopedKey[] {
+  let config: Record<string, ApiKeyConfig>;
+  try {
+    config = JSON.parse(json) as Record<string, ApiKeyConfig>;
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`${source} must be a JSON object mapping key names to {key, role, allow_zones?, deny_zones?}.`);
+  }
+  return Object.entries(config).map(([name, entry]) => {
+    if (!entry?.key || entry.key.length < 16) {
+      throw new Error(`${source}: key '${name}' must have a 'key' of at least 16 characters.`);
+    }
+    if (!API_KEY_ROLES.includes(entry.role)) {
+      throw new Error(`${source}: key '${name}' has role '${entry.role}'; expected one of ${API_KEY_ROLES.join(", ")}.`);
+    }
+    return {
+      key: entry.key,
+      name,
+      role: entry.role,
+      allowZones: entry.allow_zones ?? [],
+      denyZones: entry.deny_zones ?? [],
+    };
+  });
+}
+
+/**
+ * Returns the configured scoped API keys (empty when none are configured).
+ * Throws when the configuration is invalid.
+ */
+export function getScopedKeys(): ScopedKey[] {
+  if (_scopedKeys) return _scopedKeys;
+  const keys: ScopedKey[] = [];
+  const inline = getEnv("CLOUDFLARE_DNS_MCP_API_KEYS");
+  if (inline) keys.push(...parseApiKeys(inline, "CLOUDFLARE_DNS_MCP_API_KEYS"));
+  const path = getEnv("CLOUDFLARE_DNS_MCP_API_KEYS_FILE");
+  if (path) keys.push(...parseApiKeys(readFileSync(path, "utf8"), path));
+
+  const seen = new Set<string>();
+  for (const k of keys) {
+    if (seen.has(k.key)) throw new Error(`API key '${k.name}' reuses the key of another entry.`);
+    seen.add(k.key);
+  }
+  _scopedKeys = keys;
+  return keys;
+}
+
+function findScopedKey(provided: string, kind: Principal["kind"]): Principal | null {
+  const match = getScopedKeys().find((k) => safeCompare(provided, k.key));
+  if (!match) return null;
+  return { kind, name: match.name, role: match.role, allowZones: match.allowZones, denyZones: match.denyZones };
+}
+
+function sharedPrincipal(kind: Principal["kind"]): Principal {
+  return { kind, name: null, role: "admin", allowZones: [], denyZones: [] };
+}
+
 // ─── Bearer token auth (MCP_API_TOKEN) ──────────────────────────
 
 let _bearerToken: string | null | undefined = undefined; // undefined = not yet checked
 
 export function getBearerToken(): string | null {
   if (_bearerToken !== undefined) return _bearerToken;
-  const token = (process.env.MCP_API_TOKEN || "").trim();
+  const token = (getEnv("MCP_API_TOKEN") || "").trim();
   _bearerToken = token || null;
   return _bearerToken;
 }
 
 /**
- * Validate an Authorization: Bearer header value against MCP_API_TOKEN.
- * Returns true if valid, false if invalid. Returns null if bearer auth
- * is not configured (caller should fall through to other auth).
+ * Validate an Authorization: Bearer header value against MCP_API_TOKEN and
+ * the scoped keys. Returns the caller's principal, or null if the header is
+ * missing or matches nothing. Only call this when getBearerToken() is set;
+ * otherwise bearer auth is not configured.
  */
-export function validateBearerToken(authHeader: string | null | undefined): boolean | null {
+export function validateBearerToken(authHeader: string | null | undefined): Principal | null {
   const expected = getBearerToken();
-  if (!expected) return null; // Bearer auth not configured
-
-  if (!authHeader) return false;
+  if (!expected || !authHeader) return null;
   const match = authHeader.match(/^Bearer\s+(.+)$/i);
-  if (!match) return false;
+  if (!match) return null;
 
   const provided = match[1];
-  return safeCompare(provided, expected);
+  if (safeCompare(provided, expected)) return sharedPrincipal("bearer");
+  return findScopedKey(provided, "bearer");
 }
 
 // ─── X-API-Key auth (CLOUDFLARE_DNS_MCP_API_KEY) ────────────────
 
-let _apiKey: string | null = null;
+let _apiKey: string | null | undefined = undefined; // undefined = not yet checked
 
-export function getOrCreateApiKey(): string {
-  if (_apiKey) return _apiKey;
+/**
+ * Returns the shared API key: CLOUDFLARE_DNS_MCP_API_KEY, else a generated
+ * one — unless scoped keys are configured, in which case only they apply.
+ */
+export function getOrCreateApiKey(): string | null {
+  if (_apiKey !== undefined) return _apiKey;
 
-  const envKey = process.env.CLOUDFLARE_DNS_MCP_API_KEY;
+  const envKey = getEnv("CLOUDFLARE_DNS_MCP_API_KEY");
   if (envKey && envKey.length >= 16) {
     _apiKey = envKey;
     return _apiKey;
   }
+  if (getScopedKeys().length > 0) {
+    _apiKey = null;
+    return _apiKey;
+  }
 
   // Auto-generate and warn
   _apiKey = randomBytes(32).toString("hex");
@@ -68,20 +171,34 @@ export function getOrCreateApiKey(): string {
 }
 
 /**
- * Validates a request's API key. Checks X-API-Key header first, then
- * falls back to ?api_key query parameter.
+ * Validates the API key from a request's X-API-Key header.
  *
- * Returns true if valid, false otherwise.
+ * Returns the caller's principal, or null if no key matches.
  */
-export function validateApiKey(
-  headerValue: string | null | undefined,
-  queryValue: string | null | undefined
-): boolean {
+export function validateApiKey(provided: string | null | undefined): Principal | null {
+  if (!provided) return null;
+
   const expected = getOrCreateApiKey();
-  const provided = headerValue || queryValue;
-  if (!provided) return false;
+  if (expected && safeCompare(provided, expected)) return sharedPrincipal("api-key");
+  return findScopedKey(provided, "api-key");
+}
+
+// ─── Caller identity ────────────────────────────────────────────
 
-  return safeCompare(provided, expected);
+/**
+ * Builds the auth info attached to an authenticated HTTP request. Tools read
+ * it as the caller identity for the audit journal, and take the principal's
+ * scopes and zone rules from it. The client ID carries the key name, or a
+ * short fingerprint of a shared credential — never the credential itself.
+ */
+export function buildAuthInfo(principal: Principal, credential: string): AuthInfo {
+  const id = principal.name ?? createHash("sha256").update(credential).digest("hex").slice(0, 12);
+  return {
+    token: credential,
+    clientId: `${principal.kind}:${id}`,
+    scopes: roleScopes(principal.role),
+    extra: { principal },
+  };
 }
 
 // ─── Helpers ────────────────────────────────────────────────────
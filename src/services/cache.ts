@@ -0,0 +1,183 @@
+import { CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTL_MS } from "../constants.js";
+import type { KvNamespaceLike } from "./snapshots.js";
+import { getEnv } from "./env.js";
+import { currentProfile } from "./profiles.js";
+
+/**
+ * Read-through cache for the read tools.
+ *
+ * cf_dns_list_zones, cf_dns_get_zone, cf_dns_list_records and
+ * cf_dns_get_record load through cached(), so an agent re-listing the same
+ * zone within the TTL costs no API requests. Entries belonging to a zone are
+ * dropped by invalidateZone(), which runs after every record write, so a
+ * tool never reads back stale data after its own change. Changes made
+ * outside this server (dashboard, other clients) show up once the TTL ends.
+ *
+ * Write paths never read through the cache: their before-state must be live.
+ *
+ * Backends:
+ *
+ *   - Node (default): an in-memory map, bounded to CACHE_MAX_ENTRIES
+ *   - Workers: a KV namespace, installed with setCacheStore(new KvCacheStore(env.CACHE))
+ *
+ * The cache is off unless CLOUDFLARE_DNS_MCP_CACHE_TTL (seconds) is set to
+ * more than 0, so by default every read is live.
+ */
+
+export interface CacheStore {
+  /**
+   * Maps a cache key to the key the entry is stored under. cached() resolves
+   * once, before loading, so a value loaded across an invalidation is stored
+   * where later reads no longer look.
+   */
+  resolve(key: string): Promise<string>;
+  get(storeKey: string): Promise<unknown | undefined>;
+  set(storeKey: string, value: unknown, ttlMs: number): Promise<void>;
+  /** Drops every entry stored under the given zone scope. */
+  invalidateZone(zoneId: string): Promise<void>;
+}
+
+// ─── Memory store (Node) ────────────────────────────────────────
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: unknown; expires: number }>();
+
+  constructor(private readonly maxEntries: number = CACHE_MAX_ENTRIES) {}
+
+  // Invalidation deletes entries outright, so keys need no versioning
+  async resolve(key: string): Promise<string> {
+    return key;
+  }
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expires < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttlMs });
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async invalidateZone(zoneId: string): Promise<void> {
+    const prefix = `zone:${zoneId}:`;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+}
+
+// ─── KV store (Workers) ─────────────────────────────────────────
+
+/** KV rejects expirations shorter than 60 seconds. */
+const KV_MIN_TTL_S = 60;
+
+/**
+ * Stores entries as `cache:<key>` with a KV expiration. KV cannot delete by
+ * prefix, so each zone has a generation counter (`cache-gen:<zone>`) that is
+ * part of its entry keys; invalidation bumps the counter and the old entries
+ * simply expire. KV is eventually consistent, so other locations may serve
+ * an old generation for up to a minute.
+ */
+export class KvCacheStore implements CacheStore {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  async resolve(key: string): Promise<string> {
+    const match = /^zone:([^:]+):/.exec(key);
+    if (!match) return `cache:${key}`;
+    const gen = ((await this.kv.get(`cache-gen:${match[1]}`, "json")) as number | null) ?? 0;
+    return `cache:${key.replace(/^zone:[^:]+:/, `zone:${match[1]}:${gen}:`)}`;
+  }
+
+  async get(storeKey: string): Promise<unknown | undefined> {
+    const value = await this.kv.get(storeKey, "json");
+    return value === null ? undefined : value;
+  }
+
+  async set(storeKey: string, value: unknown, ttlMs: number): Promise<void> {
+    await this.kv.put(storeKey, JSON.stringify(value), {
+      expirationTtl: Math.max(KV_MIN_TTL_S, Math.ceil(ttlMs / 1000)),
+    });
+  }
+
+  async invalidateZone(zoneId: string): Promise<void> {
+    await this.kv.put(`cache-gen:${zoneId}`, JSON.stringify(Date.now()));
+  }
+}
+
+// ─── Active store ───────────────────────────────────────────────
+
+let _store: CacheStore | null = null;
+
+/**
+ * Returns the active cache store, defaulting to the memory store.
+ */
+export function getCacheStore(): CacheStore {
+  if (!_store) _store = new MemoryCacheStore();
+  return _store;
+}
+
+/**
+ * Replaces the active cache store (e.g. with a KV store on Workers).
+ */
+export function setCacheStore(store: CacheStore): void {
+  _store = store;
+}
+
+function cacheTtlMs(): number {
+  const seconds = parseInt(getEnv("CLOUDFLARE_DNS_MCP_CACHE_TTL") ?? "", 10);
+  return Number.isNaN(seconds) ? DEFAULT_CACHE_TTL_MS : Math.max(0, seconds) * 1000;
+}
+
+/**
+ * Returns the cached value for `key`, or loads, stores and returns it.
+ * Pass the zone ID as `zoneId` for anything a record write can change, so
+ * invalidateZone() drops it; pass null for account-wide data (zone lists).
+ * A failing cache backend falls back to loading directly.
+ */
+export async function cached<T>(zoneId: string | null, key: string, load: () => Promise<T>): Promise<T> {
+  const ttl = cacheTtlMs();
+  if (ttl === 0) return load();
+
+  // Zone IDs are global; account-wide results depend on whose token listed them
+  const fullKey = zoneId ? `zone:${zoneId}:${key}` : `account:${currentProfile().name}:${key}`;
+  const store = getCacheStore();
+  let storeKey: string | null = null;
+  try {
+    storeKey = await store.resolve(fullKey);
+    const hit = await store.get(storeKey);
+    if (hit !== undefined) return hit as T;
+  } catch (error) {
+    console.error(`Cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const value = await load();
+  if (storeKey === null) return value;
+  try {
+    await store.set(storeKey, value, ttl);
+  } catch (error) {
+    console.error(`Cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return value;
+}
+
+/**
+ * Drops a zone's cached reads. Called after every record write; failures
+ * are logged rather than failing the write, which has already happened.
+ */
+export async function invalidateZone(zoneId: string): Promise<void> {
+  try {
+    await getCacheStore().invalidateZone(zoneId);
+  } catch (error) {
+    console.error(`Cache invalidation failed for zone ${zoneId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -1,24 +1,508 @@
 import Cloudflare from "cloudflare";
+import type { Fetch } from "cloudflare/core";
+import { ZONE_CACHE_TTL_MS } from "../constants.js";
+import type { RecordFilters } from "../schemas/records.js";
+import { rateLimitedFetch } from "./rate-limit.js";
+import { invalidateZone } from "./cache.js";
+import { currentProfile, getProfile, getProfiles, isProfileExplicit, runWithProfile } from "./profiles.js";
+import type { Profile } from "./profiles.js";
+import { currentPrincipal, hasZoneRules, zoneAllowed, zoneRuledOut } from "./access.js";
 
-let _client: Cloudflare | null = null;
+const _clients = new Map<string, Cloudflare>();
 
 /**
- * Returns a singleton Cloudflare SDK client.
- * Reads CLOUDFLARE_API_TOKEN from the environment.
+ * Returns the Cloudflare SDK client for the current profile (see
+ * services/profiles.ts), creating it on first use.
+ *
+ * Requests go through the shared rate limiter, which also owns retries,
+ * so the SDK's own retry loop is turned off.
  */
 export function getClient(): Cloudflare {
-  if (_client) return _client;
+  return clientFor(currentProfile());
+}
 
-  const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-  if (!apiToken) {
-    throw new Error(
-      "CLOUDFLARE_API_TOKEN environment variable is required. " +
-        "Create a token at https://dash.cloudflare.com/profile/api-tokens with Zone:Read and DNS:Edit permissions."
-    );
+function clientFor(profile: Profile): Cloudflare {
+  const existing = _clients.get(profile.name);
+  if (existing) return existing;
+
+  // The SDK types `fetch` against node-fetch; the global fetch is compatible at runtime
+  const client = new Cloudflare({
+    apiToken: profile.apiToken,
+    maxRetries: 0,
+    fetch: rateLimitedFetch() as unknown as Fetch,
+  });
+  _clients.set(profile.name, client);
+  return client;
+}
+
+/**
+ * Fetches every DNS record in a zone, following the SDK's auto-pagination.
+ * Use for whole-zone operations (import, diffing); list tools fetch single
+ * pages with fetchRecordsPage instead.
+ */
+export async function fetchAllRecords(zoneId: string): Promise<Record<string, unknown>[]> {
+  const client = getClient();
+  const records: Record<string, unknown>[] = [];
+  for await (const record of client.dns.records.list({ zone_id: zoneId, per_page: 5000 })) {
+    records.push(record as unknown as Record<string, unknown>);
   }
+  return records;
+}
 
-  _client = new Cloudflare({ apiToken });
-  return _client;
+/**
+ * Translates the shared filter_* parameters into Cloudflare list query params.
+ */
+export function buildRecordFilterQuery(filters: RecordFilters): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  if (filters.filter_type) query.type = filters.filter_type;
+  if (filters.filter_name) query["name.contains"] = filters.filter_name;
+  if (filters.filter_content) query["content.contains"] = filters.filter_content;
+  if (filters.filter_proxied !== undefined) query.proxied = filters.filter_proxied;
+  if (filters.filter_comment) query["comment.contains"] = filters.filter_comment;
+  if (filters.filter_tag) query.tag = filters.filter_tag;
+  return query;
+}
+
+/**
+ * Fetches every DNS record in a zone matching the filter_* parameters.
+ */
+export async function fetchFilteredRecords(
+  zoneId: string,
+  filters: RecordFilters
+): Promise<Record<string, unknown>[]> {
+  const client = getClient();
+  const records: Record<string, unknown>[] = [];
+  const query = { zone_id: zoneId, per_page: 5000, ...buildRecordFilterQuery(filters) };
+  for await (const record of client.dns.records.list(query as Parameters<typeof client.dns.records.list>[0])) {
+    records.push(record as unknown as Record<string, unknown>);
+  }
+  return records;
+}
+
+/**
+ * Fetches the DNS records at an exact name (case-insensitive), all types.
+ */
+export async function fetchRecordsByName(zoneId: string, name: string): Promise<Record<string, unknown>[]> {
+  const client = getClient();
+  const records: Record<string, unknown>[] = [];
+  for await (const record of client.dns.records.list({ zone_id: zoneId, name: { exact: name } })) {
+    records.push(record as unknown as Record<string, unknown>);
+  }
+  return records;
+}
+
+// ─── Page-level listing ─────────────────────────────────────────
+
+/** Cloudflare's result_info on list responses (the SDK only types page/per_page). */
+interface ResultInfo {
+  page?: number;
+  per_page?: number;
+  count?: number;
+  total_count?: number;
+  total_pages?: number;
+}
+
+/** One page of a list endpoint with the server's total. */
+export interface ListPage {
+  items: Record<string, unknown>[];
+  /** Total matching items across all pages, from result_info.total_count. */
+  total: number;
+}
+
+/**
+ * Fetches one page of DNS records — exactly one API request. `query` holds
+ * filter and order params (see buildRecordFilterQuery).
+ */
+export async function fetchRecordsPage(
+  zoneId: string,
+  query: Record<string, unknown>,
+  page: number,
+  perPage: number
+): Promise<ListPage> {
+  const client = getClient();
+  // Awaiting the PagePromise yields the first page only, without auto-pagination
+  const response = await client.dns.records.list({
+    zone_id: zoneId,
+    ...query,
+    page,
+    per_page: perPage,
+  } as Parameters<typeof client.dns.records.list>[0]);
+  const items = response.result as unknown as Record<string, unknown>[];
+  return { items, total: (response.result_info as ResultInfo).total_count ?? items.length };
+}
+
+/**
+ * Fetches every zone matching `query`, following the SDK's auto-pagination.
+ * For callers whose zone rules hide part of each page, so the visible zones
+ * can be paginated locally.
+ */
+export async function fetchAllZones(query: Record<string, unknown>): Promise<Record<string, unknown>[]> {
+  const client = getClient();
+  const zones: Record<string, unknown>[] = [];
+  for await (const zone of client.zones.list({ ...query, per_page: 50 } as Parameters<typeof client.zones.list>[0])) {
+    zones.push(zone as unknown as Record<string, unknown>);
+  }
+  return zones;
+}
+
+/**
+ * Fetches one page of zones — exactly one API request.
+ */
+export async function fetchZonesPage(
+  query: Record<string, unknown>,
+  page: number,
+  perPage: number
+): Promise<ListPage> {
+  const client = getClient();
+  const response = await client.zones.list({
+    ...query,
+    page,
+    per_page: perPage,
+  } as Parameters<typeof client.zones.list>[0]);
+  const items = response.result as unknown as Record<string, unknown>[];
+  return { items, total: (response.result_info as ResultInfo).total_count ?? items.length };
+}
+
+// ─── Zone resolver ───────────────────────────────────────────────
+
+interface CacheEntry {
+  value: string;
+  expires: number;
+}
+
+const _zoneIdsByName = new Map<string, CacheEntry>();
+const _zoneNamesById = new Map<string, CacheEntry>();
+
+function cacheGet(cache: Map<string, CacheEntry>, key: string): string | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expires < Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.value;
+}
+
+function rememberZone(id: string, name: string): void {
+  const expires = Date.now() + ZONE_CACHE_TTL_MS;
+  _zoneIdsByName.set(name, { value: id, expires });
+  _zoneNamesById.set(id, { value: name, expires });
+}
+
+/**
+ * Resolves a domain name to a zone ID. Accepts a zone apex ("example.com")
+ * or any FQDN inside it ("api.staging.example.com"), which resolves to the
+ * nearest enclosing zone. Results are cached for ZONE_CACHE_TTL_MS.
+ */
+export async function resolveZoneName(name: string): Promise<string> {
+  const fqdn = name.trim().toLowerCase().replace(/\.$/, "");
+  const cached = cacheGet(_zoneIdsByName, fqdn);
+  if (cached) return cached;
+
+  const client = getClient();
+  const labels = fqdn.split(".");
+  // Walk from the full name towards the apex; stop before the bare TLD
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    const hit = cacheGet(_zoneIdsByName, candidate);
+    if (hit) {
+      _zoneIdsByName.set(fqdn, { value: hit, expires: Date.now() + ZONE_CACHE_TTL_MS });
+      return hit;
+    }
+
+    const page = await client.zones.list({ name: candidate });
+    const zone = page.result[0];
+    if (zone) {
+      rememberZone(zone.id, zone.name);
+      _zoneIdsByName.set(fqdn, { value: zone.id, expires: Date.now() + ZONE_CACHE_TTL_MS });
+      return zone.id;
+    }
+  }
+
+  throw new Error(
+    `No zone found for '${name}'. Use cf_dns_list_zones to see the zones this API token can access.`
+  );
+}
+
+/**
+ * Returns the zone ID for tool params carrying zone_id and/or zone_name.
+ * zone_id wins when both are given. Throws when the caller's API key may
+ * not access the zone.
+ */
+export async function resolveZoneId(params: { zone_id?: string; zone_name?: string }): Promise<string> {
+  let zoneId: string;
+  if (params.zone_id) zoneId = params.zone_id;
+  else if (params.zone_name) zoneId = await resolveZoneName(params.zone_name);
+  else throw new Error("Provide either zone_id or zone_name.");
+  await assertZoneAccess(zoneId);
+  return zoneId;
+}
+
+/**
+ * Returns the domain name of a zone (e.g. "example.com") for a zone ID.
+ * Cached alongside the name → ID mappings.
+ */
+export async function getZoneName(zoneId: string): Promise<string> {
+  const cached = cacheGet(_zoneNamesById, zoneId);
+  if (cached) return cached;
+
+  const client = getClient();
+  const zone = await client.zones.get({ zone_id: zoneId });
+  rememberZone(zone.id, zone.name);
+  return zone.name;
+}
+
+// ─── Zone access ─────────────────────────────────────────────────
+
+/**
+ * True when the caller of the tool call in progress may access the zone
+ * (see services/access.ts). Looks up the zone name only when the caller
+ * has zone rules and `zoneName` is not given.
+ */
+export async function canAccessZone(zoneId: string, zoneName?: string): Promise<boolean> {
+  const principal = currentPrincipal();
+  if (!hasZoneRules(principal)) return true;
+  return zoneAllowed(principal, zoneId, zoneName ?? (await getZoneName(zoneId)));
+}
+
+/**
+ * Keeps the items whose zone the caller may access, for listings that span
+ * zones. `zoneOf` returns an item's zone ID and, if known, its name.
+ */
+export async function filterAccessibleZones<T>(
+  items: T[],
+  zoneOf: (item: T) => { id: string; name?: string }
+): Promise<T[]> {
+  if (!hasZoneRules(currentPrincipal())) return items;
+  const visible: T[] = [];
+  // One at a time, so each zone name is looked up once and then cached
+  for (const item of items) {
+    const zone = zoneOf(item);
+    if (await canAccessZone(zone.id, zone.name)) visible.push(item);
+  }
+  return visible;
+}
+
+/**
+ * Throws unless the caller may access the zone.
+ */
+export async function assertZoneAccess(zoneId: string): Promise<void> {
+  if (await canAccessZone(zoneId)) return;
+  const principal = currentPrincipal()!;
+  throw new Error(
+    `Forbidden: API key '${principal.name}' may not access zone ${await getZoneName(zoneId)} (${zoneId}).`
+  );
+}
+
+/**
+ * Clears the zone resolver cache.
+ */
+export function clearZoneCache(): void {
+  _zoneIdsByName.clear();
+  _zoneNamesById.clear();
+  _zoneProfiles.clear();
+}
+
+// ─── Profile routing ─────────────────────────────────────────────
+
+/** Zone ID → name of the profile whose token can access it. */
+const _zoneProfiles = new Map<string, CacheEntry>();
+
+function rememberProfile(zoneId: string, profile: Profile): void {
+  _zoneProfiles.set(zoneId, { value: profile.name, expires: Date.now() + ZONE_CACHE_TTL_MS });
+}
+
+/** True for the errors a token gets for a zone outside its account. */
+function isNoAccess(error: unknown): boolean {
+  return error instanceof Cloudflare.APIError && [400, 403, 404].includes(error.status ?? 0);
+}
+
+async function profileForZoneId(zoneId: string): Promise<Profile | null> {
+  const cached = cacheGet(_zoneProfiles, zoneId);
+  if (cached) return getProfile(cached);
+
+  for (const profile of getProfiles()) {
+    try {
+      const zone = await clientFor(profile).zones.get({ zone_id: zoneId });
+      rememberZone(zone.id, zone.name);
+      rememberProfile(zone.id, profile);
+      return profile;
+    } catch (error) {
+      if (!isNoAccess(error)) throw error;
+    }
+  }
+  return null;
+}
+
+async function profileForZoneName(name: string): Promise<Profile | null> {
+  const fqdn = name.trim().toLowerCase().replace(/\.$/, "");
+  const cachedId = cacheGet(_zoneIdsByName, fqdn);
+  if (cachedId) return profileForZoneId(cachedId);
+
+  // Same walk as resolveZoneName, asking every profile at each level so the
+  // most specific zone wins even when parent and child are in different accounts
+  const labels = fqdn.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    for (const profile of getProfiles()) {
+      const page = await clientFor(profile).zones.list({ name: candidate });
+      const zone = page.result[0];
+      if (zone) {
+        rememberZone(zone.id, zone.name);
+        rememberProfile(zone.id, profile);
+        _zoneIdsByName.set(fqdn, { value: zone.id, expires: Date.now() + ZONE_CACHE_TTL_MS });
+        return profile;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the profile whose account owns the zone named by zone_id or
+ * zone_name. Returns null when there is no zone in the params or no
+ * profile can see it.
+ */
+export async function resolveProfileForZone(params: { zone_id?: string; zone_name?: string }): Promise<Profile | null> {
+  const profiles = getProfiles();
+  if (profiles.length === 1) return profiles[0];
+  if (params.zone_id) return profileForZoneId(params.zone_id);
+  if (params.zone_name) return profileForZoneName(params.zone_name);
+  return null;
+}
+
+/**
+ * Throws when the caller's zone rules already refuse the zone in
+ * zone_id/zone_name, judged from the params and the cached ID ↔ name
+ * mappings alone. Called before runWithRoutedProfile so that routing never
+ * probes the profiles for a zone the caller may not access. A zone_name
+ * that isn't cached may be a name inside the zone, so the zone is only
+ * ruled out when every enclosing domain resolveZoneName could stop at is.
+ */
+export function assertZoneRoutable(params: { zone_id?: string; zone_name?: string }): void {
+  const principal = currentPrincipal();
+  if (!hasZoneRules(principal)) return;
+
+  let zoneId: string | undefined;
+  let zoneNames: string[] = [];
+  if (params.zone_id) {
+    zoneId = params.zone_id;
+  } else if (params.zone_name) {
+    const fqdn = params.zone_name.trim().toLowerCase().replace(/\.$/, "");
+    zoneId = cacheGet(_zoneIdsByName, fqdn) ?? undefined;
+    const labels = fqdn.split(".");
+    if (!zoneId) zoneNames = labels.slice(0, -1).map((_, i) => labels.slice(i).join("."));
+  }
+  const cachedName = zoneId ? cacheGet(_zoneNamesById, zoneId) : null;
+  if (cachedName) zoneNames = [cachedName];
+
+  if (!zoneRuledOut(principal, zoneId, zoneNames)) return;
+  throw new Error(
+    `Forbidden: API key '${principal!.name}' may not access zone ${cachedName ?? params.zone_id ?? params.zone_name}.`
+  );
+}
+
+/**
+ * Runs a tool call under the right profile: the one named in `profile`,
+ * else the one owning the zone in zone_id/zone_name, else the default.
+ */
+export async function runWithRoutedProfile<T>(
+  params: { profile?: string; zone_id?: string; zone_name?: string },
+  fn: () => Promise<T>
+): Promise<T> {
+  if (params.profile) return runWithProfile(getProfile(params.profile), fn, true);
+  const profile = (await resolveProfileForZone(params)) ?? currentProfile();
+  return runWithProfile(profile, fn);
+}
+
+/**
+ * Runs `fn` under the profile owning `zoneId`, for tools that learn the
+ * zone only after loading something (a snapshot, a plan). A profile the
+ * caller named explicitly is kept. Zone access is checked as in
+ * resolveZoneId.
+ */
+export async function runForZone<T>(zoneId: string, fn: () => Promise<T>): Promise<T> {
+  const run = async () => {
+    await assertZoneAccess(zoneId);
+    return fn();
+  };
+  if (isProfileExplicit()) return run();
+  const profile = (await resolveProfileForZone({ zone_id: zoneId })) ?? currentProfile();
+  return runWithProfile(profile, run);
+}
+
+/** Operations for a single batch DNS request. */
+export interface BatchRequest {
+  /** Record IDs to delete. */
+  deletes?: string[];
+  /** Partial updates; each needs the record `id`. */
+  patches?: Array<{ id: string } & Record<string, unknown>>;
+  /** Full overwrites; each needs the record `id`. */
+  puts?: Array<{ id: string } & Record<string, unknown>>;
+  /** New records. */
+  posts?: Record<string, unknown>[];
+}
+
+export interface BatchResult {
+  deletes: Record<string, unknown>[];
+  patches: Record<string, unknown>[];
+  puts: Record<string, unknown>[];
+  posts: Record<string, unknown>[];
+}
+
+/**
+ * Cloudflare answered a batch request with a client error (4xx), so none of
+ * its operations applied. Keeps the status and body of the original API
+ * error, so handleApiError describes it the same way.
+ */
+export class BatchRejectedError extends Cloudflare.APIError {
+  constructor(error: InstanceType<typeof Cloudflare.APIError>) {
+    super(error.status, error.error, error.message, error.headers);
+    this.name = "BatchRejectedError";
+    this.message = error.message;
+  }
+}
+
+/**
+ * Sends operations through Cloudflare's batch DNS records endpoint.
+ *
+ * The batch runs in a single database transaction — either every operation
+ * applies or none do. Cloudflare always executes deletes, then patches,
+ * then puts, then posts, regardless of the order in the request.
+ * The zone's cached reads are invalidated afterwards.
+ *
+ * Throws BatchRejectedError when Cloudflare refuses the batch. Other errors
+ * (a dropped connection, a timeout, a 5xx) leave it unknown whether the
+ * batch applied.
+ */
+export async function runBatch(zoneId: string, ops: BatchRequest): Promise<BatchResult> {
+  const client = getClient();
+  let response;
+  try {
+    response = await client.dns.records.batch({
+      zone_id: zoneId,
+      ...(ops.deletes?.length ? { deletes: ops.deletes.map((id) => ({ id })) } : {}),
+      ...(ops.patches?.length ? { patches: ops.patches } : {}),
+      ...(ops.puts?.length ? { puts: ops.puts } : {}),
+      ...(ops.posts?.length ? { posts: ops.posts } : {}),
+    } as Parameters<typeof client.dns.records.batch>[0]);
+  } catch (error) {
+    if (error instanceof Cloudflare.APIError && error.status !== undefined && error.status < 500) {
+      throw new BatchRejectedError(error);
+    }
+    throw error;
+  } finally {
+    // A failed request may still have applied (e.g. a timeout after commit)
+    await invalidateZone(zoneId);
+  }
+
+  const list = (items: unknown[] | undefined) => (items ?? []) as Record<string, unknown>[];
+  return {
+    deletes: list(response.deletes),
+    patches: list(response.patches),
+    puts: list(response.puts),
+    posts: list(response.posts),
+  };
 }
 
 /**
@@ -41,14 +525,33 @@ export async function validateToken(): Promise<{ status: string; id: string }> {
     }
     throw new Error(
       `Failed to verify API token: ${error instanceof Error ? error.message : String(error)}. ` +
-        `Ensure CLOUDFLARE_API_TOKEN is a valid API token (not a global API key).`
+        `Ensure the token (CLOUDFLARE_API_TOKEN or a CLOUDFLARE_PROFILES entry) is a valid API token (not a global API key).`
     );
   }
 }
 
 /**
- * Resets the client singleton (useful for testing).
+ * Validates every profile's API token. Throws one error listing each
+ * profile that failed, so startup reports all bad tokens at once.
+ */
+export async function validateProfiles(): Promise<Array<{ profile: string; status: string; id: string }>> {
+  const verified: Array<{ profile: string; status: string; id: string }> = [];
+  const failures: string[] = [];
+  for (const profile of getProfiles()) {
+    try {
+      verified.push({ profile: profile.name, ...(await runWithProfile(profile, validateToken)) });
+    } catch (error) {
+      failures.push(`profile '${profile.name}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (failures.length > 0) throw new Error(failures.join("\n    "));
+  return verified;
+}
+
+/**
+ * Resets the client singletons (useful for testing).
  */
 export function resetClient(): void {
-  _client = null;
+  _clients.clear();
+  clearZoneCache();
 }
@@ -0,0 +1,225 @@
+import { createHash, randomBytes } from "node:crypto";
+import { CONFIRMATION_TTL_MS } from "../constants.js";
+import { currentCaller } from "./access.js";
+import type { BatchRequest } from "./cloudflare.js";
+import type { KvNamespaceLike } from "./snapshots.js";
+
+/**
+ * Confirmation tokens for destructive tools (cf_dns_delete_record,
+ * cf_dns_bulk_delete, cf_dns_batch deletes, patches and puts, cf_dns_apply of
+ * plans that delete, cf_dns_restore_snapshot, cf_dns_undo) and for imports
+ * (cf_dns_import_records), which create many records at once.
+ *
+ * These tools work in two phases. The first call only previews what would be
+ * removed and issues a token bound to the tool, the caller, the zone, the IDs
+ * of the records at risk and a hash of their current content, plus whatever
+ * else defines the operation (see ConfirmationScope). The second call
+ * must carry the token; it is accepted once, within CONFIRMATION_TTL_MS, from
+ * the same caller, and only if the same records are still there unchanged.
+ * Tokens are random, so the only way to get one is to look at the preview.
+ *
+ * Storage is pluggable:
+ *
+ *   - Node (default): an in-memory map
+ *   - Workers: a KV namespace, installed with setConfirmationStore(new KvConfirmationStore(env.CONFIRMATIONS))
+ */
+
+/**
+ * What a token confirms beyond its records. Every field passed to
+ * redeemConfirmation must equal the one given at issue.
+ */
+export interface ConfirmationScope {
+  /** Plans: the plan the token confirms. */
+  plan_id?: string;
+  /** Restores: the snapshot being restored. */
+  snapshot_id?: string;
+  /** Batches and undos: hash of the complete operation set (see batchHash). */
+  ops_hash?: string;
+}
+
+export interface Confirmation extends ConfirmationScope {
+  token: string;
+  /** Tool that may redeem the token (cf_dns_plan issues tokens for cf_dns_apply). */
+  tool: string;
+  /** Caller the token was issued to (see currentCaller); only they may redeem it. */
+  caller: string;
+  zone_id: string;
+  /** Sorted IDs of the records the operation removes or overwrites (imports: keys of the records it creates). */
+  record_ids: string[];
+  content_hash: string;
+  expires_at: number;
+}
+
+export interface ConfirmationStore {
+  put(confirmation: Confirmation): Promise<void>;
+  get(token: string): Promise<Confirmation | null>;
+  delete(token: string): Promise<void>;
+}
+
+// ─── Memory store (Node) ────────────────────────────────────────
+
+export class MemoryConfirmationStore implements ConfirmationStore {
+  private readonly confirmations = new Map<string, Confirmation>();
+
+  async put(confirmation: Confirmation): Promise<void> {
+    const now = Date.now();
+    for (const [token, c] of this.confirmations) if (c.expires_at < now) this.confirmations.delete(token);
+    this.confirmations.set(confirmation.token, confirmation);
+  }
+
+  async get(token: string): Promise<Confirmation | null> {
+    return this.confirmations.get(token) ?? null;
+  }
+
+  async delete(token: string): Promise<void> {
+    this.confirmations.delete(token);
+  }
+}
+
+// ─── KV store (Workers) ─────────────────────────────────────────
+
+/** KV rejects expirations shorter than 60 seconds. */
+const KV_MIN_TTL_S = 60;
+
+/**
+ * Stores confirmations as `confirmation:<token>` keys that expire with the
+ * token. KV has no atomic read-and-delete and is eventually consistent, so
+ * a token redeemed in one location may still be readable in another for up
+ * to a minute; the caller binding keeps that window to the token's owner.
+ */
+export class KvConfirmationStore implements ConfirmationStore {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  async put(confirmation: Confirmation): Promise<void> {
+    const ttlMs = confirmation.expires_at - Date.now();
+    await this.kv.put(`confirmation:${confirmation.token}`, JSON.stringify(confirmation), {
+      expirationTtl: Math.max(KV_MIN_TTL_S, Math.ceil(ttlMs / 1000)),
+    });
+  }
+
+  async get(token: string): Promise<Confirmation | null> {
+    return (await this.kv.get(`confirmation:${token}`, "json")) as Confirmation | null;
+  }
+
+  async delete(token: string): Promise<void> {
+    await this.kv.delete(`confirmation:${token}`);
+  }
+}
+
+// ─── Active store ───────────────────────────────────────────────
+
+let _store: ConfirmationStore | null = null;
+
+/**
+ * Returns the active confirmation store, defaulting to the memory store.
+ */
+export function getConfirmationStore(): ConfirmationStore {
+  if (!_store) _store = new MemoryConfirmationStore();
+  return _store;
+}
+
+/**
+ * Replaces the active confirmation store (e.g. with a KV store on Workers).
+ */
+export function setConfirmationStore(store: ConfirmationStore): void {
+  _store = store;
+}
+
+// ─── Issue and redeem ───────────────────────────────────────────
+
+/**
+ * Hash of the fields that define each record, so any edit between the two
+ * phases is detected even if Cloudflare did not bump modified_on.
+ */
+function contentHash(records: Record<string, unknown>[]): string {
+  const fields = [...records]
+    .sort((a, b) => String(a.id).localeCompare(String(b.id)))
+    .map((r) => [r.id, r.type, r.name, r.content, r.data, r.ttl, r.proxied, r.priority, r.comment, r.tags, r.modified_on]);
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Hash of every operation in a batch, in order, for ConfirmationScope.ops_hash:
+ * a token then only applies the exact batch that was previewed.
+ */
+export function batchHash(ops: BatchRequest): string {
+  const lists = [ops.deletes ?? [], ops.patches ?? [], ops.puts ?? [], ops.posts ?? []];
+  return createHash("sha256").update(JSON.stringify(lists)).digest("hex");
+}
+
+/**
+ * Issues a single-use token confirming `tool` on `records` as they are now,
+ * for the caller of the tool call in progress.
+ */
+export async function issueConfirmation(
+  tool: string,
+  zoneId: string,
+  records: Record<string, unknown>[],
+  scope: ConfirmationScope = {}
+): Promise<Confirmation> {
+  const confirmation: Confirmation = {
+    ...scope,
+    token: `cfm_${randomBytes(12).toString("hex")}`,
+    tool,
+    caller: currentCaller(),
+    zone_id: zoneId,
+    record_ids: records.map((r) => String(r.id)).sort(),
+    content_hash: contentHash(records),
+    expires_at: Date.now() + CONFIRMATION_TTL_MS,
+  };
+  await getConfirmationStore().put(confirmation);
+  return confirmation;
+}
+
+/**
+ * Uses up a token issued for `tool`, the zone, the current caller and
+ * `scope`, and returns it. A token presented by anyone else, or for another
+ * tool, zone or operation, is refused and left for its owner; once the
+ * bindings match it is consumed, even when the call it confirms fails
+ * afterwards.
+ */
+export async function redeemConfirmation(
+  token: string,
+  tool: string,
+  zoneId: string,
+  scope: ConfirmationScope = {}
+): Promise<Confirmation> {
+  const store = getConfirmationStore();
+  const confirmation = await store.get(token);
+  if (!confirmation || confirmation.expires_at < Date.now()) {
+    throw new Error(
+      `Confirmation token '${token}' not found (unknown, expired or already used). ` +
+        `Call ${tool} again without confirmation_token to preview and get a new token.`
+    );
+  }
+  if (confirmation.caller !== currentCaller()) {
+    throw new Error(
+      `Confirmation token '${token}' was issued to another caller. ` +
+        `Call ${tool} without confirmation_token to preview and get your own token.`
+    );
+  }
+  const sameScope = (Object.keys(scope) as (keyof ConfirmationScope)[]).every((key) => confirmation[key] === scope[key]);
+  if (confirmation.tool !== tool || confirmation.zone_id !== zoneId || !sameScope) {
+    throw new Error(
+      `Confirmation token '${token}' was issued for ${confirmation.tool} on another zone or operation. ` +
+        `Call ${tool} without confirmation_token to preview and get a token for this operation.`
+    );
+  }
+  await store.delete(token);
+  return confirmation;
+}
+
+/**
+ * Throws unless `records` are exactly the records the token was issued for,
+ * with the same content.
+ */
+export function assertUnchanged(confirmation: Confirmation, records: Record<string, unknown>[]): void {
+  const ids = records.map((r) => String(r.id)).sort();
+  const sameSet = ids.length === confirmation.record_ids.length && ids.every((id, i) => id === confirmation.record_ids[i]);
+  if (!sameSet || contentHash(records) !== confirmation.content_hash) {
+    throw new Error(
+      `Records changed since the preview (${sameSet ? "content was edited" : "records were added or removed"}). ` +
+        `Nothing was written — preview again and confirm with the new token.`
+    );
+  }
+}
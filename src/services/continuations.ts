@@ -0,0 +1,125 @@
+import { randomBytes } from "node:crypto";
+import { CHARACTER_LIMIT, CONTINUATION_MAX_STORED, CONTINUATION_TTL_MS } from "../constants.js";
+import { currentCaller } from "./access.js";
+
+/**
+ * In-memory store for oversized tool responses.
+ *
+ * A response longer than CHARACTER_LIMIT is split into chunks at line
+ * boundaries (or mid-line when a single line is too long). The first chunk
+ * is returned along with an opaque cursor; cf_dns_continue returns the chunk
+ * the cursor points at plus a cursor for the next one. The chunks are cut
+ * from one stored copy of the full text, so concatenating them reproduces
+ * the response exactly — no gaps or overlaps, even if the zone changes
+ * between calls. Asking for the same cursor twice returns the same chunk.
+ *
+ * A cursor only works for the caller (see currentCaller) whose call produced
+ * the response. The store is process memory: under Node it is lost on
+ * restart, and on Workers a cursor only works while cf_dns_continue reaches
+ * the isolate that served the original call.
+ */
+
+interface StoredResponse {
+  /** Caller whose tool call produced the response; only they may read it. */
+  caller: string;
+  chunks: string[];
+  expires_at: number;
+}
+
+/** Room left in each chunk for the continuation footer. */
+const FOOTER_RESERVE = 300;
+
+const _responses = new Map<string, StoredResponse>();
+
+function encodeCursor(id: string, index: number): string {
+  return Buffer.from(`${id}:${index}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { id: string; index: number } | null {
+  const match = /^(resp_[0-9a-f]+):(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? { id: match[1], index: Number(match[2]) } : null;
+}
+
+/** Splits text into chunks of at most `size` characters, preferring line ends. */
+function splitChunks(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const newline = text.lastIndexOf("\n", end - 1);
+      // Keep the newline with the chunk it ends; cut mid-line only if there is no usable break
+      if (newline >= start + size / 2) end = newline + 1;
+    }
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+function sweep(): void {
+  const now = Date.now();
+  for (const [id, stored] of _responses) {
+    if (stored.expires_at < now) _responses.delete(id);
+  }
+  // Maps iterate in insertion order, so the first keys are the oldest
+  while (_responses.size > CONTINUATION_MAX_STORED) {
+    _responses.delete(_responses.keys().next().value as string);
+  }
+}
+
+function footer(id: string, index: number, total: number): string {
+  if (index + 1 >= total) return `\n\n--- END (chunk ${index + 1} of ${total}) ---`;
+  return (
+    `\n\n--- CONTINUED (chunk ${index + 1} of ${total}) ---\n` +
+    `Output continues exactly where this chunk stops. Call cf_dns_continue with ` +
+    `cursor="${encodeCursor(id, index + 1)}" for the next chunk.`
+  );
+}
+
+/**
+ * Returns text unchanged when it fits in CHARACTER_LIMIT. Otherwise stores
+ * it and returns the first chunk followed by a continuation cursor.
+ */
+export function chunkIfNeeded(text: string): string {
+  if (text.length <= CHARACTER_LIMIT) return text;
+  const { id, chunks } = store(text);
+  return chunks[0] + footer(id, 0, chunks.length);
+}
+
+/**
+ * Stores text in full and returns a cursor for its first chunk, for
+ * responses that return a summary in place of the data.
+ */
+export function storeForContinuation(text: string): string {
+  return encodeCursor(store(text).id, 0);
+}
+
+function store(text: string): { id: string; chunks: string[] } {
+  sweep();
+  const id = `resp_${randomBytes(8).toString("hex")}`;
+  const chunks = splitChunks(text, CHARACTER_LIMIT - FOOTER_RESERVE);
+  _responses.set(id, { caller: currentCaller(), chunks, expires_at: Date.now() + CONTINUATION_TTL_MS });
+  return { id, chunks };
+}
+
+/**
+ * Returns the chunk a continuation cursor points at, with the cursor for
+ * the chunk after it. Throws when the cursor is malformed, has expired or
+ * belongs to another caller — the last looks the same as an unknown cursor.
+ */
+export function continueResponse(cursor: string): string {
+  const position = decodeCursor(cursor.trim());
+  const stored = position ? _responses.get(position.id) : undefined;
+  if (!position || !stored || stored.expires_at < Date.now() || stored.caller !== currentCaller()) {
+    throw new Error(
+      `Cursor is unknown or has expired (cursors last ${CONTINUATION_TTL_MS / 60_000} minutes, only work for the caller ` +
+        `that got them, and do not survive a server restart). ` +
+        "Re-run the original call to get a fresh cursor."
+    );
+  }
+  if (position.index >= stored.chunks.length) {
+    throw new Error(`Cursor points past the end of the response (${stored.chunks.length} chunks).`);
+  }
+  return stored.chunks[position.index] + footer(position.id, position.index, stored.chunks.length);
+}
@@ -0,0 +1,192 @@
+import { getClient, fetchAllRecords, fetchRecordsByName, getZoneName } from "./cloudflare.js";
+import type { BatchRequest } from "./cloudflare.js";
+import { previewPolicies } from "./policy.js";
+import type { PolicyChange } from "./policy.js";
+import { formatRecord } from "../formatters/record.js";
+import { findConflicts, qualifyName } from "../utils/records.js";
+
+/**
+ * Dry-run previews for the write tools.
+ *
+ * Each preview reads the current state of the affected records and returns
+ * the before/after view of the change plus any conflicts, without calling a
+ * mutating endpoint. Conflicts include the record policies the change would
+ * break, and each preview counts as the dry run a require_dry_run policy
+ * asks for.
+ */
+
+export interface RecordPreview {
+  record_id?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  /** Fields that change (updates only). */
+  changed?: string[];
+  conflicts: string[];
+}
+
+/** Concise rendering of a (possibly not-yet-existing) record. */
+function render(record: Record<string, unknown>): Record<string, unknown> {
+  const formatted = formatRecord(record, true) as Record<string, unknown>;
+  if (!formatted.id) delete formatted.id;
+  return formatted;
+}
+
+/** Applies a patch to a record; returns the merged state and the fields that actually change. */
+function merge(
+  before: Record<string, unknown>,
+  patch: Record<string, unknown>
+): { after: Record<string, unknown>; changed: string[] } {
+  const changed = Object.keys(patch).filter((k) => JSON.stringify(before[k]) !== JSON.stringify(patch[k]));
+  return { after: { ...before, ...patch }, changed };
+}
+
+function asCandidate(record: Record<string, unknown>) {
+  return {
+    type: String(record.type),
+    name: String(record.name),
+    content: String(record.content ?? ""),
+    priority: record.priority === undefined ? undefined : Number(record.priority),
+  };
+}
+
+/**
+ * Previews creating one record.
+ */
+export async function previewCreate(zoneId: string, payload: Record<string, unknown>): Promise<RecordPreview> {
+  const zoneName = await getZoneName(zoneId);
+  const after = { ...payload, name: qualifyName(String(payload.name), zoneName) };
+  const existing = await fetchRecordsByName(zoneId, String(after.name));
+  const policy = await previewPolicies(zoneId, [{ action: "create", before: null, after }]);
+  return { before: null, after: render(after), conflicts: [...findConflicts(existing, asCandidate(after), zoneName), ...policy] };
+}
+
+/**
+ * Previews patching one record.
+ */
+export async function previewUpdate(
+  zoneId: string,
+  recordId: string,
+  patch: Record<string, unknown>
+): Promise<RecordPreview> {
+  const client = getClient();
+  const before = (await client.dns.records.get(recordId, { zone_id: zoneId })) as unknown as Record<string, unknown>;
+  const zoneName = await getZoneName(zoneId);
+  const normalizedPatch = patch.name ? { ...patch, name: qualifyName(String(patch.name), zoneName) } : patch;
+  const { after, changed } = merge(before, normalizedPatch);
+  const existing = await fetchRecordsByName(zoneId, String(after.name));
+  const policy = await previewPolicies(zoneId, [{ action: "update", before, after }]);
+  return {
+    record_id: recordId,
+    before: render(before),
+    after: render(after),
+    changed,
+    conflicts: [...findConflicts(existing, asCandidate(after), zoneName, recordId), ...policy],
+  };
+}
+
+/**
+ * Previews deleting one record, given its current state.
+ */
+export async function previewDelete(zoneId: string, before: Record<string, unknown>): Promise<RecordPreview> {
+  const policy = await previewPolicies(zoneId, [{ action: "delete", before, after: null }]);
+  return { record_id: String(before.id), before: render(before), after: null, conflicts: policy };
+}
+
+/** Previews for each operation list of a batch. */
+export interface BatchPreview {
+  deletes: RecordPreview[];
+  patches: RecordPreview[];
+  puts: RecordPreview[];
+  posts: RecordPreview[];
+}
+
+/**
+ * Previews a batch against a single snapshot of the zone, simulating
+ * Cloudflare's execution order (deletes, patches, puts, posts). Each step
+ * sees the effect of the previous ones, so conflicts within the batch —
+ * e.g. two new CNAMEs at one name — are reported.
+ */
+export async function previewBatch(zoneId: string, ops: BatchRequest): Promise<BatchPreview> {
+  const zoneName = await getZoneName(zoneId);
+  let zoneRecords = await fetchAllRecords(zoneId);
+  const findRecord = (id: string) => zoneRecords.find((r) => String(r.id) === id);
+  const replace = (before: Record<string, unknown>, after: Record<string, unknown>) => {
+    zoneRecords = zoneRecords.map((r) => (r === before ? after : r));
+  };
+  const qualify = (fields: Record<string, unknown>) =>
+    fields.name ? { ...fields, name: qualifyName(String(fields.name), zoneName) } : fields;
+  // Policies are checked once the simulation is done
+  const changes: Array<[RecordPreview, PolicyChange]> = [];
+  const track = (preview: RecordPreview, change: PolicyChange) => {
+    changes.push([preview, change]);
+    return preview;
+  };
+  const notFound = (id: string): RecordPreview => ({
+    record_id: id,
+    before: null,
+    after: null,
+    conflicts: [`Record ${id} not found in zone.`],
+  });
+
+  const deletes = (ops.deletes ?? []).map((id) => {
+    const before = findRecord(id);
+    if (!before) return notFound(id);
+    zoneRecords = zoneRecords.filter((r) => r !== before);
+    const preview = { record_id: id, before: render(before), after: null, conflicts: [] };
+    return track(preview, { action: "delete", before, after: null });
+  });
+
+  const patches = (ops.patches ?? []).map(({ id, ...patch }) => {
+    const before = findRecord(id);
+    if (!before) return notFound(id);
+    const { after, changed } = merge(before, qualify(patch));
+    const conflicts = findConflicts(zoneRecords, asCandidate(after), zoneName, id);
+    replace(before, after);
+    const preview = { record_id: id, before: render(before), after: render(after), changed, conflicts };
+    return track(preview, { action: "update", before, after });
+  });
+
+  const puts = (ops.puts ?? []).map(({ id, ...fields }) => {
+    const before = findRecord(id);
+    if (!before) return notFound(id);
+    const after = { id, ...qualify(fields) };
+    const changed = Object.keys(fields).filter((k) => JSON.stringify(before[k]) !== JSON.stringify(fields[k]));
+    const conflicts = findConflicts(zoneRecords, asCandidate(after), zoneName, id);
+    replace(before, after);
+    const preview = { record_id: id, before: render(before), after: render(after), changed, conflicts };
+    return track(preview, { action: "update", before, after });
+  });
+
+  const posts = (ops.posts ?? []).map((payload) => {
+    const after = qualify(payload);
+    const conflicts = findConflicts(zoneRecords, asCandidate(after), zoneName);
+    zoneRecords.push(after);
+    return track({ before: null, after: render(after), conflicts }, { action: "create", before: null, after });
+  });
+
+  for (const [preview, change] of changes) {
+    preview.conflicts.push(...(await previewPolicies(zoneId, [change])));
+  }
+  return { deletes, patches, puts, posts };
+}
+
+/**
+ * Previews creating several records, including conflicts within the batch.
+ */
+export async function previewBulkCreate(
+  zoneId: string,
+  payloads: Record<string, unknown>[]
+): Promise<RecordPreview[]> {
+  return (await previewBatch(zoneId, { posts: payloads })).posts;
+}
+
+/**
+ * Previews patching several records against a single snapshot of the zone.
+ */
+export async function previewBulkUpdate(
+  zoneId: string,
+  updates: Array<{ record_id: string; patch: Record<string, unknown> }>
+): Promise<RecordPreview[]> {
+  const patches = updates.map(({ record_id, patch }) => ({ ...patch, id: record_id }));
+  return (await previewBatch(zoneId, { patches })).patches;
+}
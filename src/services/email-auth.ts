@@ -0,0 +1,202 @@
+import { fetchRecordsByName, resolveZoneName } from "./cloudflare.js";
+import { normalizeContent } from "../utils/records.js";
+import {
+  SPF_LOOKUP_LIMIT,
+  isSpf,
+  isDmarc,
+  parseSpf,
+  parseDmarc,
+  parseDkim,
+  dmarcName,
+  isLookupTarget,
+} from "../utils/email-auth.js";
+import type { SpfRecord, DmarcRecord, DkimRecord } from "../utils/email-auth.js";
+
+/**
+ * Email authentication checks over live records.
+ *
+ * SPF include: and redirect= targets are followed through the zones this
+ * API token can see, so the lookup count covers the whole include tree as
+ * far as it stays inside the account. Targets elsewhere (e.g. a mail
+ * provider's _spf domain) count as one lookup each and are reported as
+ * unresolved, so the total is a lower bound in that case.
+ */
+
+type Rec = Record<string, unknown>;
+
+/** Returns the TXT values at a name, or null when the name is outside the account. */
+export type TxtLookup = (name: string) => Promise<string[] | null>;
+
+const lower = (v: unknown) => String(v ?? "").toLowerCase().replace(/\.$/, "");
+
+function txtValues(records: Rec[], name: string): string[] {
+  return records
+    .filter((r) => r.type === "TXT" && lower(r.name) === name)
+    .map((r) => normalizeContent("TXT", String(r.content ?? "")));
+}
+
+/**
+ * TXT lookup that answers from an already-fetched zone where it can and
+ * falls back to the other zones in the account.
+ */
+export function accountTxtLookup(zoneName: string, zoneRecords: Rec[]): TxtLookup {
+  const zone = lower(zoneName);
+  return async (name) => {
+    const fqdn = lower(name);
+    if (fqdn === zone || fqdn.endsWith(`.${zone}`)) return txtValues(zoneRecords, fqdn);
+    let zoneId: string;
+    try {
+      zoneId = await resolveZoneName(fqdn);
+    } catch {
+      return null;
+    }
+    return txtValues(await fetchRecordsByName(zoneId, fqdn), fqdn);
+  };
+}
+
+export interface SpfNode {
+  domain: string;
+  content: string | null;
+  /** Lookups made by this record alone. */
+  lookups: number;
+  /** Lookups including every resolved include/redirect below this one. */
+  total_lookups: number;
+  /** True when the domain is outside the account and could not be read. */
+  unresolved?: true;
+  record?: SpfRecord;
+  errors: string[];
+  warnings: string[];
+  includes: SpfNode[];
+}
+
+/**
+ * Reads and parses the SPF record at a domain, following include: and
+ * redirect= targets. `seen` guards against include loops.
+ */
+export async function walkSpf(domain: string, lookupTxt: TxtLookup, seen: Set<string> = new Set()): Promise<SpfNode> {
+  const node: SpfNode = { domain, content: null, lookups: 0, total_lookups: 0, errors: [], warnings: [], includes: [] };
+  if (seen.has(domain)) {
+    node.errors.push(`Include loop: ${domain} includes itself.`);
+    return node;
+  }
+
+  const values = await lookupTxt(domain);
+  if (values === null) {
+    node.unresolved = true;
+    return node;
+  }
+  const spf = values.filter(isSpf);
+  if (spf.length === 0) {
+    node.errors.push(`No SPF record at ${domain}.`);
+    return node;
+  }
+  if (spf.length > 1) node.errors.push(`${spf.length} SPF records at ${domain}; receivers fail SPF when there is more than one.`);
+
+  const parsed = parseSpf(spf[0]);
+  Object.assign(node, { content: spf[0], record: parsed.record, lookups: parsed.record.lookups });
+  node.errors.push(...parsed.errors);
+  node.warnings.push(...parsed.warnings);
+
+  const targets = parsed.record.terms.filter((t) => t.mechanism === "include" && t.value).map((t) => t.value!);
+  if (parsed.record.redirect && !parsed.record.terms.some((t) => t.mechanism === "all")) {
+    targets.push(parsed.record.redirect);
+  }
+
+  const path = new Set(seen).add(domain);
+  node.total_lookups = node.lookups;
+  for (const target of targets) {
+    if (!isLookupTarget(target)) continue;
+    const child = await walkSpf(lower(target), lookupTxt, path);
+    node.includes.push(child);
+    node.total_lookups += child.total_lookups;
+  }
+  return node;
+}
+
+function collectUnresolved(node: SpfNode): string[] {
+  return [...(node.unresolved ? [node.domain] : []), ...node.includes.flatMap(collectUnresolved)];
+}
+
+export interface SpfCheck {
+  lookups: number;
+  lookup_limit: number;
+  over_limit: boolean;
+  /** Include targets outside the account; their own lookups are not counted. */
+  unresolved: string[];
+  tree: SpfNode;
+}
+
+/**
+ * Checks a domain's SPF record and counts lookups across its include tree.
+ */
+export async function checkSpf(domain: string, lookupTxt: TxtLookup): Promise<SpfCheck> {
+  const tree = await walkSpf(lower(domain), lookupTxt);
+  return {
+    lookups: tree.total_lookups,
+    lookup_limit: SPF_LOOKUP_LIMIT,
+    over_limit: tree.total_lookups > SPF_LOOKUP_LIMIT,
+    unresolved: collectUnresolved(tree).filter((d) => d !== lower(domain)),
+    tree,
+  };
+}
+
+export interface DmarcCheck {
+  name: string;
+  content: string | null;
+  record?: DmarcRecord;
+  errors: string[];
+  warnings: string[];
+}
+
+export function checkDmarc(domain: string, zoneRecords: Rec[]): DmarcCheck {
+  const name = dmarcName(lower(domain));
+  const values = txtValues(zoneRecords, name).filter(isDmarc);
+  if (values.length === 0) {
+    return { name, content: null, errors: [`No DMARC record at ${name}.`], warnings: [] };
+  }
+  const parsed = parseDmarc(values[0]);
+  const errors = [...parsed.errors];
+  if (values.length > 1) errors.unshift(`${values.length} DMARC records at ${name}; receivers ignore DMARC when there is more than one.`);
+  return { name, content: values[0], record: parsed.record, errors, warnings: parsed.warnings };
+}
+
+export interface DkimCheck {
+  selector: string;
+  name: string;
+  content: string | null;
+  /** Set when the selector is delegated to a provider with a CNAME. */
+  cname?: string;
+  record?: DkimRecord;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Checks DKIM keys for the given selectors, or for every selector found
+ * under _domainkey.<domain> in the zone.
+ */
+export function checkDkim(domain: string, zoneRecords: Rec[], selectors?: string[]): DkimCheck[] {
+  const suffix = `._domainkey.${lower(domain)}`;
+  const found = selectors ?? [
+    ...new Set(
+      zoneRecords
+        .filter((r) => (r.type === "TXT" || r.type === "CNAME") && lower(r.name).endsWith(suffix))
+        .map((r) => lower(r.name).slice(0, -suffix.length))
+    ),
+  ];
+
+  return found.map((selector) => {
+    const name = `${selector}${suffix}`;
+    const cname = zoneRecords.find((r) => r.type === "CNAME" && lower(r.name) === name);
+    if (cname) return { selector, name, content: null, cname: String(cname.content), errors: [], warnings: [] };
+
+    const values = txtValues(zoneRecords, name);
+    if (values.length === 0) {
+      return { selector, name, content: null, errors: [`No DKIM record at ${name}.`], warnings: [] };
+    }
+    const parsed = parseDkim(values[0]);
+    const errors = [...parsed.errors];
+    if (values.length > 1) errors.unshift(`${values.length} TXT records at ${name}; a selector must have exactly one key.`);
+    return { selector, name, content: values[0], record: parsed.record, errors, warnings: parsed.warnings };
+  });
+}
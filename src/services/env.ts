@@ -0,0 +1,30 @@
+/**
+ * Configuration lookup shared by the Node and Workers entry points.
+ *
+ * Under Node, settings come from process.env. A Worker has no process
+ * environment: its vars and secrets arrive as bindings on every fetch()
+ * call, and worker.ts installs them here with setEnv(). Services read their
+ * settings through getEnv() so the same code runs on both.
+ */
+
+let _bindings: Record<string, string> | null = null;
+
+/**
+ * Returns a setting from the installed bindings, or from process.env when
+ * none are installed.
+ */
+export function getEnv(name: string): string | undefined {
+  return _bindings ? _bindings[name] : process.env[name];
+}
+
+/**
+ * Installs Worker bindings as the configuration source. Only string
+ * bindings (vars and secrets) are kept; KV namespaces and other bindings
+ * are wired up by the caller.
+ */
+export function setEnv(bindings: Record<string, unknown>): void {
+  _bindings = {};
+  for (const [name, value] of Object.entries(bindings)) {
+    if (typeof value === "string") _bindings[name] = value;
+  }
+}
@@ -0,0 +1,297 @@
+import { randomBytes } from "node:crypto";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { getEnv } from "./env.js";
+import { fetchAllRecords, runBatch } from "./cloudflare.js";
+import type { BatchRequest, BatchResult } from "./cloudflare.js";
+import { batchChanges, enforcePolicies } from "./policy.js";
+import type { KvNamespaceLike } from "./snapshots.js";
+
+/**
+ * Audit journal of record mutations.
+ *
+ * Every write tool appends one entry per record it creates, updates or
+ * deletes, with the record state before and after the change and the caller
+ * that made it. Storage is pluggable, like snapshots:
+ *
+ *   - Node (default): a JSON Lines file at CLOUDFLARE_DNS_MCP_JOURNAL_FILE
+ *     (default ~/.cloudflare-dns-mcp/journal.jsonl)
+ *   - Workers: a KV namespace, installed with setJournalStore(new KvJournalStore(env.JOURNAL))
+ */
+
+export type JournalAction = "create" | "update" | "delete";
+
+/** A record as captured in the journal. */
+export interface JournalRecord {
+  id: string;
+  type: string;
+  name: string;
+  content: string;
+  ttl: number;
+  proxied?: boolean;
+  priority?: number;
+  comment?: string | null;
+  tags?: string[];
+  data?: Record<string, unknown>;
+  modified_on?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  /**
+   * Who made the change: "api-key:<key name or fingerprint>",
+   * "bearer:<key name or fingerprint>", "oauth:<subject>" or "local".
+   */
+  caller: string;
+  tool: string;
+  zone_id: string;
+  record_id: string;
+  action: JournalAction;
+  before: JournalRecord | null;
+  after: JournalRecord | null;
+  /** Shared by all entries written by one tool call. */
+  change_id: string;
+  /** Set on entries written by cf_dns_undo: the change IDs that were reverted. */
+  reverts?: string[];
+}
+
+export interface JournalQuery {
+  zone_id?: string;
+  record_id?: string;
+  tool?: string;
+  change_id?: string;
+  /** ISO 8601 lower bound (inclusive). */
+  since?: string;
+  /** ISO 8601 upper bound (exclusive). */
+  until?: string;
+  /** Excludes entries for zones it returns false for, before `limit` applies. */
+  zoneVisible?: (zoneId: string) => Promise<boolean>;
+  limit: number;
+}
+
+export interface JournalStore {
+  append(entries: JournalEntry[]): Promise<void>;
+  /** Newest first. */
+  query(query: JournalQuery): Promise<JournalEntry[]>;
+}
+
+/** Which tool is writing, and on whose behalf. */
+export interface WriteContext {
+  tool: string;
+  caller: string;
+  reverts?: string[];
+}
+
+/** The entry fields queries filter on; the KV store keeps them in key metadata. */
+type EntryIndex = Pick<JournalEntry, "zone_id" | "record_id" | "tool" | "change_id" | "timestamp">;
+
+function matches(entry: EntryIndex, q: JournalQuery): boolean {
+  if (q.zone_id && entry.zone_id !== q.zone_id) return false;
+  if (q.record_id && entry.record_id !== q.record_id) return false;
+  if (q.tool && entry.tool !== q.tool) return false;
+  if (q.change_id && entry.change_id !== q.change_id) return false;
+  if (q.since && Date.parse(entry.timestamp) < Date.parse(q.since)) return false;
+  if (q.until && Date.parse(entry.timestamp) >= Date.parse(q.until)) return false;
+  return true;
+}
+
+async function visible(entry: EntryIndex, q: JournalQuery): Promise<boolean> {
+  return !q.zoneVisible || (await q.zoneVisible(entry.zone_id));
+}
+
+// ─── File store (Node) ──────────────────────────────────────────
+
+export class FileJournalStore implements JournalStore {
+  constructor(private readonly path: string) {}
+
+  async append(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await mkdir(dirname(this.path), { recursive: true });
+    await appendFile(this.path, entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf8");
+  }
+
+  async query(query: JournalQuery): Promise<JournalEntry[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    // Appended in time order, so walk backwards for newest first
+    const lines = text.split("\n");
+    const results: JournalEntry[] = [];
+    for (let i = lines.length - 1; i >= 0 && results.length < query.limit; i--) {
+      if (!lines[i].trim()) continue;
+      const entry = JSON.parse(lines[i]) as JournalEntry;
+      if (matches(entry, query) && (await visible(entry, query))) results.push(entry);
+    }
+    return results;
+  }
+}
+
+// ─── KV store (Workers) ─────────────────────────────────────────
+
+/**
+ * Stores entries as `journal:<inverted time>:<id>` keys so that KV's
+ * lexicographic listing returns the newest first. The filterable fields are
+ * duplicated into key metadata so only matching entries are read.
+ */
+export class KvJournalStore implements JournalStore {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  private key(entry: JournalEntry): string {
+    const inverted = String(9_999_999_999_999 - Date.parse(entry.timestamp)).padStart(13, "0");
+    return `journal:${inverted}:${entry.id}`;
+  }
+
+  async append(entries: JournalEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const { zone_id, record_id, tool, change_id, timestamp } = entry;
+      const metadata: EntryIndex = { zone_id, record_id, tool, change_id, timestamp };
+      await this.kv.put(this.key(entry), JSON.stringify(entry), { metadata });
+    }
+  }
+
+  async query(query: JournalQuery): Promise<JournalEntry[]> {
+    const results: JournalEntry[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix: "journal:", cursor });
+      for (const key of page.keys) {
+        const meta = key.metadata as EntryIndex | undefined;
+        if (!meta || !matches(meta, query) || !(await visible(meta, query))) continue;
+        const entry = (await this.kv.get(key.name, "json")) as JournalEntry | null;
+        if (entry) results.push(entry);
+        if (results.length >= query.limit) return results;
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return results;
+  }
+}
+
+// ─── Active store ───────────────────────────────────────────────
+
+let _store: JournalStore | null = null;
+
+/**
+ * Returns the active journal store, defaulting to the file store.
+ */
+export function getJournalStore(): JournalStore {
+  if (_store) return _store;
+  const path =
+    getEnv("CLOUDFLARE_DNS_MCP_JOURNAL_FILE") || join(homedir(), ".cloudflare-dns-mcp", "journal.jsonl");
+  _store = new FileJournalStore(path);
+  return _store;
+}
+
+/**
+ * Replaces the active journal store (e.g. with a KV store on Workers).
+ */
+export function setJournalStore(store: JournalStore): void {
+  _store = store;
+}
+
+// ─── Recording ──────────────────────────────────────────────────
+
+/**
+ * Builds the write context for a tool call. The caller comes from the auth
+ * info the HTTP transport attaches to the request; stdio calls are "local".
+ */
+export function writeContext(tool: string, authInfo?: AuthInfo): WriteContext {
+  return { tool, caller: authInfo?.clientId ?? "local" };
+}
+
+function toJournalRecord(r: Record<string, unknown>): JournalRecord {
+  return {
+    id: String(r.id),
+    type: String(r.type),
+    name: String(r.name),
+    content: String(r.content ?? ""),
+    ttl: Number(r.ttl ?? 1),
+    ...(r.proxied !== undefined ? { proxied: Boolean(r.proxied) } : {}),
+    ...(r.priority !== undefined ? { priority: Number(r.priority) } : {}),
+    comment: (r.comment as string | null | undefined) ?? null,
+    tags: Array.isArray(r.tags) ? (r.tags as string[]) : [],
+    ...(r.data ? { data: r.data as Record<string, unknown> } : {}),
+    ...(r.modified_on ? { modified_on: String(r.modified_on) } : {}),
+  };
+}
+
+export interface RecordChange {
+  action: JournalAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Appends one journal entry per changed record and returns the change ID
+ * they share. The write has already happened by the time this runs, so a
+ * journal failure is logged rather than reported as a failed tool call.
+ */
+export async function recordChanges(ctx: WriteContext, zoneId: string, changes: RecordChange[]): Promise<string | null> {
+  if (changes.length === 0) return null;
+  const timestamp = new Date().toISOString();
+  const changeId = `chg_${Date.now().toString(36)}_${randomBytes(4).toString("hex")}`;
+  const entries = changes.map((c, i): JournalEntry => ({
+    id: `${changeId}_${i}`,
+    timestamp,
+    caller: ctx.caller,
+    tool: ctx.tool,
+    zone_id: zoneId,
+    record_id: String((c.after ?? c.before)?.id ?? ""),
+    action: c.action,
+    before: c.before ? toJournalRecord(c.before) : null,
+    after: c.after ? toJournalRecord(c.after) : null,
+    change_id: changeId,
+    ...(ctx.reverts ? { reverts: ctx.reverts } : {}),
+  }));
+
+  try {
+    await getJournalStore().append(entries);
+  } catch (error) {
+    console.error(`cloudflare-dns-mcp-server: failed to write audit journal: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return changeId;
+}
+
+/**
+ * Runs a batch and journals every record it touched. The before state of
+ * deleted, patched and overwritten records is taken from `known` when the
+ * caller already has it, otherwise from one listing of the zone. The batch
+ * is checked against the record policies first, so every batch-based write
+ * tool is covered by them.
+ */
+export async function runJournaledBatch(
+  ctx: WriteContext,
+  zoneId: string,
+  ops: BatchRequest,
+  known: Record<string, unknown>[] = []
+): Promise<BatchResult> {
+  const before = new Map(known.map((r) => [String(r.id), r]));
+  const touched = [...(ops.deletes ?? []), ...(ops.patches ?? []).map((p) => p.id), ...(ops.puts ?? []).map((p) => p.id)];
+  if (touched.some((id) => !before.has(id))) {
+    for (const r of await fetchAllRecords(zoneId)) {
+      if (!before.has(String(r.id))) before.set(String(r.id), r);
+    }
+  }
+
+  await enforcePolicies(zoneId, batchChanges(ops, before));
+  const result = await runBatch(zoneId, ops);
+
+  await recordChanges(ctx, zoneId, [
+    ...(ops.deletes ?? []).map((id) => ({ action: "delete" as const, before: before.get(id) ?? { id }, after: null })),
+    ...[...result.patches, ...result.puts].map((r) => ({
+      action: "update" as const,
+      before: before.get(String(r.id)) ?? null,
+      after: r,
+    })),
+    ...result.posts.map((r) => ({ action: "create" as const, before: null, after: r })),
+  ]);
+  return result;
+}
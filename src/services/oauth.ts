@@ -0,0 +1,163 @@
+import { createRemoteJWKSet, errors, jwtVerify } from "jose";
+import type { JWTPayload } from "jose";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { TOOL_SCOPES } from "../constants.js";
+import { getEnv } from "./env.js";
+
+/**
+ * OAuth 2.1 authorization for the HTTP transport, per the MCP authorization
+ * spec. This server is a resource server only: clients obtain access tokens
+ * from an external authorization server and send them as
+ * `Authorization: Bearer <jwt>`.
+ *
+ * Enabled by MCP_OAUTH_ISSUER. Then:
+ *
+ *   - /.well-known/oauth-protected-resource (RFC 9728) names the issuer as
+ *     the authorization server, and 401 responses point clients at it
+ *   - access tokens must be JWTs signed by a key in the issuer's JWKS
+ *     (MCP_OAUTH_JWKS_URL, else the jwks_uri from the issuer's metadata),
+ *     with a matching `iss`, an `aud` of MCP_OAUTH_AUDIENCE (default: the
+ *     resource URL) and an unexpired `exp`
+ *   - the token's scopes decide which tools it may call: dns:read for the
+ *     read-only tools, dns:admin for ADMIN_TOOLS, dns:write for everything
+ *     else (see services/access.ts)
+ *
+ * MCP_API_TOKEN and X-API-Key are not accepted while OAuth is enabled.
+ */
+
+export interface OAuthConfig {
+  issuer: string;
+  /** Expected `aud`; null means the resource URL of the request. */
+  audience: string | null;
+  /** JWKS URL; null means discover it from the issuer's metadata. */
+  jwksUrl: string | null;
+  /** Canonical URL of the MCP endpoint; null means derive it from the request. */
+  resource: string | null;
+}
+
+/** An access token that is missing, malformed, expired or not for this server. */
+export class InvalidTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidTokenError";
+  }
+}
+
+/**
+ * Returns the OAuth configuration, or null when OAuth is not enabled.
+ */
+export function getOAuthConfig(): OAuthConfig | null {
+  const issuer = getEnv("MCP_OAUTH_ISSUER");
+  if (!issuer) return null;
+  return {
+    issuer,
+    audience: getEnv("MCP_OAUTH_AUDIENCE") || null,
+    jwksUrl: getEnv("MCP_OAUTH_JWKS_URL") || null,
+    resource: getEnv("MCP_RESOURCE_URL") || null,
+  };
+}
+
+/**
+ * The resource URL clients see for the MCP endpoint: MCP_RESOURCE_URL, or
+ * the `/mcp` URL on the request's origin. Set MCP_RESOURCE_URL behind a
+ * proxy that changes the host.
+ */
+export function resourceUrl(config: OAuthConfig, requestUrl: string): string {
+  return config.resource ?? new URL("/mcp", requestUrl).toString();
+}
+
+/** URL of the protected-resource metadata for `resource` (RFC 9728 §3.1). */
+export function resourceMetadataUrl(resource: string): string {
+  const url = new URL(resource);
+  return new URL(`/.well-known/oauth-protected-resource${url.pathname.replace(/\/$/, "")}`, url).toString();
+}
+
+/**
+ * Protected-resource metadata (RFC 9728) for the MCP endpoint.
+ */
+export function protectedResourceMetadata(config: OAuthConfig, resource: string): Record<string, unknown> {
+  return {
+    resource,
+    authorization_servers: [config.issuer],
+    scopes_supported: [...TOOL_SCOPES],
+    bearer_methods_supported: ["header"],
+    resource_name: "cloudflare-dns-mcp-server",
+  };
+}
+
+// ─── JWKS ───────────────────────────────────────────────────────
+
+let _jwks: { url: string; keys: ReturnType<typeof createRemoteJWKSet> } | null = null;
+
+/** Reads jwks_uri from the issuer's OAuth (RFC 8414), else OpenID, metadata. */
+async function discoverJwksUrl(issuer: string): Promise<string> {
+  const base = issuer.replace(/\/$/, "");
+  for (const path of ["/.well-known/oauth-authorization-server", "/.well-known/openid-configuration"]) {
+    const response = await fetch(`${base}${path}`);
+    if (!response.ok) continue;
+    const metadata = (await response.json()) as { jwks_uri?: string };
+    if (metadata.jwks_uri) return metadata.jwks_uri;
+  }
+  throw new Error(`Could not discover jwks_uri for issuer ${issuer}. Set MCP_OAUTH_JWKS_URL.`);
+}
+
+async function getJwks(config: OAuthConfig): Promise<ReturnType<typeof createRemoteJWKSet>> {
+  const url = config.jwksUrl ?? (_jwks?.url || (await discoverJwksUrl(config.issuer)));
+  // The key set caches keys and refetches when it meets an unknown key ID
+  if (!_jwks || _jwks.url !== url) _jwks = { url, keys: createRemoteJWKSet(new URL(url)) };
+  return _jwks.keys;
+}
+
+// ─── Token verification ─────────────────────────────────────────
+
+/** Scopes from the `scope` claim (space-separated) or an `scp` array. */
+function tokenScopes(payload: JWTPayload): string[] {
+  if (typeof payload.scope === "string") return payload.scope.split(" ").filter(Boolean);
+  if (Array.isArray(payload.scp)) return payload.scp.map(String);
+  return [];
+}
+
+/**
+ * Verifies a bearer access token for `resource` and returns its auth info.
+ * The client ID names the subject, so the audit journal records who acted.
+ * Throws InvalidTokenError for a token that does not verify.
+ */
+export async function verifyAccessToken(config: OAuthConfig, token: string, resource: string): Promise<AuthInfo> {
+  let payload: JWTPayload;
+  try {
+    ({ payload } = await jwtVerify(token, await getJwks(config), {
+      issuer: config.issuer,
+      audience: config.audience ?? resource,
+      requiredClaims: ["exp"],
+    }));
+  } catch (error) {
+    if (error instanceof errors.JOSEError) throw new InvalidTokenError(error.message);
+    throw error;
+  }
+
+  const subject = payload.sub ?? (payload.client_id as string | undefined) ?? "unknown";
+  return {
+    token,
+    clientId: `oauth:${subject}`,
+    scopes: tokenScopes(payload),
+    expiresAt: payload.exp,
+    resource: new URL(resource),
+    extra: { issuer: payload.iss },
+  };
+}
+
+/**
+ * The WWW-Authenticate challenge for a 401 or 403 response (RFC 6750 §3,
+ * RFC 9728 §5.1).
+ */
+export function bearerChallenge(
+  resource: string,
+  error?: { code: "invalid_token" | "insufficient_scope"; description: string; scope?: string }
+): string {
+  const params = [`resource_metadata="${resourceMetadataUrl(resource)}"`];
+  if (error) {
+    params.push(`error="${error.code}"`, `error_description="${error.description.replace(/["\\]/g, "")}"`);
+    if (error.scope) params.push(`scope="${error.scope}"`);
+  }
+  return `Bearer ${params.join(", ")}`;
+}
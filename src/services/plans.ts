@@ -0,0 +1,190 @@
+import { createHash } from "node:crypto";
+import { PLAN_TTL_MS } from "../constants.js";
+import { currentCaller } from "./access.js";
+import { fetchAllRecords } from "./cloudflare.js";
+import type { BatchRequest, BatchResult } from "./cloudflare.js";
+import { runJournaledBatch } from "./journal.js";
+import type { WriteContext } from "./journal.js";
+import { batchChanges, previewPolicies } from "./policy.js";
+import { assertUnchanged } from "./confirmations.js";
+import type { Confirmation } from "./confirmations.js";
+import { diffRecords } from "../utils/diff.js";
+import type { DesiredRecord, RecordChangeSet } from "../utils/diff.js";
+
+/**
+ * In-memory store for plans produced by cf_dns_plan and by the preview step
+ * of cf_dns_restore_snapshot.
+ *
+ * A plan ID is a hash of the zone and every operation in the plan, including
+ * the modified_on timestamp of each live record it touches. Re-diffing the
+ * same desired state against an unchanged zone yields the same ID, which is
+ * how cf_dns_apply verifies it is about to run exactly the plan that was
+ * reviewed.
+ *
+ * Each plan belongs to the caller that created it (see currentCaller) and
+ * to the tool that applies it, and is only found by both, so a restore
+ * preview cannot be applied through cf_dns_apply and nobody can apply a plan
+ * they did not create, even though plan IDs are predictable. A plan that
+ * deletes or updates records is only applied with a confirmation token (see
+ * services/confirmations.ts) issued for it.
+ */
+
+export interface StoredPlan {
+  id: string;
+  /** Tool that may apply the plan. */
+  tool: string;
+  /** Caller that created the plan; only they may apply it. */
+  caller: string;
+  zone_id: string;
+  desired: DesiredRecord[];
+  prune: boolean;
+  changes: RecordChangeSet;
+  /** Record policies the plan would break when applied. */
+  policy_conflicts: string[];
+  expires_at: number;
+}
+
+const _plans = new Map<string, StoredPlan>();
+
+/**
+ * Computes the deterministic plan ID for a change set.
+ */
+export function computePlanId(zoneId: string, changes: RecordChangeSet): string {
+  const fingerprint = JSON.stringify({
+    zone_id: zoneId,
+    creates: changes.creates,
+    updates: changes.updates.map((u) => [u.record_id, u.before.modified_on ?? null, u.patch]),
+    deletes: changes.deletes.map((d) => [d.id, d.modified_on ?? null]),
+  });
+  return "plan_" + createHash("sha256").update(fingerprint).digest("hex").slice(0, 16);
+}
+
+function planKey(caller: string, tool: string, id: string): string {
+  return `${caller}|${tool}|${id}`;
+}
+
+/**
+ * Stores a plan for the current caller until it expires or is applied.
+ */
+export function savePlan(plan: Omit<StoredPlan, "caller" | "expires_at">): StoredPlan {
+  const stored = { ...plan, caller: currentCaller(), expires_at: Date.now() + PLAN_TTL_MS };
+  _plans.set(planKey(stored.caller, plan.tool, plan.id), stored);
+  return stored;
+}
+
+/**
+ * Returns a plan the current caller stored for `tool`, or null if unknown
+ * or expired.
+ */
+export function getPlan(tool: string, id: string): StoredPlan | null {
+  const plan = _plans.get(planKey(currentCaller(), tool, id));
+  if (!plan) return null;
+  if (plan.expires_at < Date.now()) {
+    deletePlan(tool, id);
+    return null;
+  }
+  return plan;
+}
+
+/**
+ * Removes one of the current caller's plans (after it has been applied).
+ */
+export function deletePlan(tool: string, id: string): void {
+  _plans.delete(planKey(currentCaller(), tool, id));
+}
+
+/**
+ * Returns the current caller's plan for `tool` on the zone, or throws the
+ * same not-found error whether the plan is unknown, expired, applied,
+ * someone else's or for another zone.
+ */
+export function requirePlan(tool: string, zoneId: string, id: string): StoredPlan {
+  const plan = getPlan(tool, id);
+  if (!plan || plan.zone_id !== zoneId) {
+    throw new Error(`Plan '${id}' not found for this zone (unknown, expired or already applied). Create a new plan.`);
+  }
+  return plan;
+}
+
+/**
+ * The live records a plan deletes or overwrites — what a confirmation
+ * token for the plan covers.
+ */
+export function planAtRisk(plan: StoredPlan): Record<string, unknown>[] {
+  return [...plan.changes.deletes, ...plan.changes.updates.map((u) => u.before)];
+}
+
+/** The batch that carries out a change set. */
+function planOps({ creates, updates, deletes }: RecordChangeSet): BatchRequest {
+  return {
+    deletes: deletes.map((d) => String(d.id)),
+    patches: updates.map((u) => ({ ...u.patch, id: u.record_id })),
+    posts: creates.map((c) => ({ ...c })),
+  };
+}
+
+/**
+ * Diffs the live zone against a desired record set and stores the result
+ * as a plan that `tool` may apply. Creating a plan counts as the dry run of
+ * its changes for the record policies.
+ */
+export async function createPlan(
+  tool: string,
+  zoneId: string,
+  desired: DesiredRecord[],
+  prune: boolean
+): Promise<StoredPlan> {
+  const live = await fetchAllRecords(zoneId);
+  const changes = diffRecords(live, desired, prune);
+  const id = computePlanId(zoneId, changes);
+  const known = new Map(live.map((r) => [String(r.id), r]));
+  const policy_conflicts = await previewPolicies(zoneId, batchChanges(planOps(changes), known));
+  return savePlan({ id, tool, zone_id: zoneId, desired, prune, changes, policy_conflicts });
+}
+
+/**
+ * Applies a plan stored for `ctx.tool` in one atomic batch. Before writing,
+ * the zone is re-diffed against the plan's desired state; if that no longer
+ * yields the same plan ID the zone has drifted and the plan is refused. A
+ * plan that deletes or updates records also needs its redeemed
+ * `confirmation`, whose records must be unchanged. Plans are single-use. Returns null as the
+ * result when the plan has no changes.
+ */
+export async function applyPlan(
+  ctx: WriteContext,
+  zoneId: string,
+  planId: string,
+  confirmation?: Confirmation
+): Promise<{ plan: StoredPlan; result: BatchResult | null }> {
+  const plan = requirePlan(ctx.tool, zoneId, planId);
+  if (confirmation && confirmation.plan_id !== plan.id) {
+    throw new Error(`Confirmation token '${confirmation.token}' was issued for another plan. Nothing was written.`);
+  }
+  if (!confirmation && planAtRisk(plan).length > 0) {
+    throw new Error(
+      `Plan '${plan.id}' deletes or updates ${planAtRisk(plan).length} record(s), so it needs the confirmation_token ` +
+        `returned with it. Nothing was written.`
+    );
+  }
+
+  const live = await fetchAllRecords(zoneId);
+  const current = diffRecords(live, plan.desired, plan.prune);
+  deletePlan(ctx.tool, plan.id);
+  if (computePlanId(zoneId, current) !== plan.id) {
+    throw new Error(
+      `Zone records changed since plan '${plan.id}' was created. Apply refused — create a new plan and review it.`
+    );
+  }
+  if (confirmation) {
+    const ids = new Set(confirmation.record_ids);
+    assertUnchanged(confirmation, live.filter((r) => ids.has(String(r.id))));
+  }
+
+  const { creates, updates, deletes } = plan.changes;
+  if (creates.length + updates.length + deletes.length === 0) {
+    return { plan, result: null };
+  }
+
+  const result = await runJournaledBatch(ctx, zoneId, planOps(plan.changes), live);
+  return { plan, result };
+}
@@ -0,0 +1,364 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+import { POLICY_PREVIEW_TTL_MS, POLICY_RULE_TYPES } from "../constants.js";
+import type { PolicyRuleType } from "../constants.js";
+import { matchesGlob } from "../utils/glob.js";
+import { qualifyName } from "../utils/records.js";
+import { currentCaller } from "./access.js";
+import { getZoneName } from "./cloudflare.js";
+import type { BatchRequest } from "./cloudflare.js";
+import { getEnv } from "./env.js";
+import type { KvNamespaceLike } from "./snapshots.js";
+
+/**
+ * Protected-record policies, consulted before any record is written.
+ *
+ * Policies come from CLOUDFLARE_DNS_MCP_POLICY_FILE (YAML or JSON) or, where
+ * there is no file system, inline from CLOUDFLARE_DNS_MCP_POLICY:
+ *
+ *   rules:
+ *     - name: locked-records
+ *       type: protect            # never create, change or delete matching records
+ *       tags: ["locked:true"]
+ *     - name: apex-ns-mx
+ *       type: protect
+ *       names: ["@"]             # "@" is the zone apex
+ *       types: [NS, MX]
+ *     - name: prod-preview
+ *       type: require_dry_run    # a dry run must have covered the record first
+ *       names: ["*.prod.*"]
+ *     - name: keep-proxied
+ *       type: require_proxied    # proxied may not be false
+ *       names: ["www.example.com"]
+ *     - name: ttl-bounds
+ *       type: ttl_range          # TTL within [min, max]; 1 (automatic) is always allowed
+ *       min: 300
+ *       max: 86400
+ *
+ * Every rule may narrow what it applies to with `zones` (zone IDs or name
+ * globs), `names` (FQDN globs, or "@"), `types` and `tags`; a record must
+ * match all of the selectors given. A rule applies to a change when the
+ * record before or after it matches.
+ *
+ * Every write path calls enforcePolicies(): the single-record tools in
+ * records-write.ts directly, and everything else through
+ * runJournaledBatch(). Dry runs call notePreview() (usually through
+ * previewPolicies()), which satisfies require_dry_run for POLICY_PREVIEW_TTL_MS
+ * — but only for the same caller making exactly the previewed change.
+ *
+ * The ledger of dry runs is pluggable, like the confirmation store:
+ *
+ *   - Node (default): an in-memory map
+ *   - Workers: a KV namespace, installed with setPreviewLedger(new KvPreviewLedger(env.CONFIRMATIONS)),
+ *     so a preview counts whichever isolate serves the write
+ */
+
+export interface PolicyRule {
+  name: string;
+  type: PolicyRuleType;
+  zones?: string[];
+  names?: string[];
+  types?: string[];
+  tags?: string[];
+  /** ttl_range only. */
+  min?: number;
+  max?: number;
+}
+
+/** One record change, with the full record before and/or after it. */
+export interface PolicyChange {
+  action: "create" | "update" | "delete";
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface PolicyViolation {
+  rule: string;
+  type: PolicyRuleType;
+  /** "<TYPE> <name>" of the record concerned. */
+  record: string;
+  message: string;
+}
+
+/** A write refused by one or more policy rules. */
+export class PolicyViolationError extends Error {
+  constructor(readonly violations: PolicyViolation[]) {
+    super(
+      `Refused by policy — nothing was written:\n` +
+        violations.map((v) => `  [${v.rule}] (${v.type}) ${v.record}: ${v.message}`).join("\n")
+    );
+    this.name = "PolicyViolationError";
+  }
+}
+
+/**
+ * The changes a batch makes, given the current state of the records it
+ * deletes, patches or overwrites.
+ */
+export function batchChanges(ops: BatchRequest, records: Map<string, Record<string, unknown>>): PolicyChange[] {
+  return [
+    ...(ops.deletes ?? []).map((id): PolicyChange => ({
+      action: "delete",
+      before: records.get(id) ?? { id },
+      after: null,
+    })),
+    ...(ops.patches ?? []).map(({ id, ...patch }): PolicyChange => {
+      const before = records.get(id) ?? null;
+      return { action: "update", before, after: { ...before, ...patch, id } };
+    }),
+    ...(ops.puts ?? []).map(({ id, ...fields }): PolicyChange => ({
+      action: "update",
+      before: records.get(id) ?? null,
+      after: { id, ...fields },
+    })),
+    ...(ops.posts ?? []).map((payload): PolicyChange => ({ action: "create", before: null, after: payload })),
+  ];
+}
+
+// ─── Loading ────────────────────────────────────────────────────
+
+let _rules: PolicyRule[] | null = null;
+
+function parseRules(text: string, source: string): PolicyRule[] {
+  let config: { rules?: PolicyRule[] };
+  try {
+    config = (parseYaml(text) ?? {}) as { rules?: PolicyRule[] };
+  } catch (error) {
+    throw new Error(`${source} is not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const rules = config.rules ?? [];
+  if (!Array.isArray(rules)) throw new Error(`${source}: 'rules' must be a list.`);
+
+  rules.forEach((rule, i) => {
+    const label = `${source}: rule ${rule?.name ? `'${rule.name}'` : `#${i + 1}`}`;
+    if (!rule?.name) throw new Error(`${label} has no name.`);
+    if (!POLICY_RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${label} has type '${rule.type}'; expected one of ${POLICY_RULE_TYPES.join(", ")}.`);
+    }
+    if (rule.type === "ttl_range" && rule.min === undefined && rule.max === undefined) {
+      throw new Error(`${label} needs min and/or max.`);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Returns the configured policy rules (empty when none are configured).
+ * Throws when the configuration is invalid.
+ */
+export function getPolicies(): PolicyRule[] {
+  if (_rules) return _rules;
+  const rules: PolicyRule[] = [];
+  const inline = getEnv("CLOUDFLARE_DNS_MCP_POLICY");
+  if (inline) rules.push(...parseRules(inline, "CLOUDFLARE_DNS_MCP_POLICY"));
+  const path = getEnv("CLOUDFLARE_DNS_MCP_POLICY_FILE");
+  if (path) rules.push(...parseRules(readFileSync(path, "utf8"), path));
+  _rules = rules;
+  return rules;
+}
+
+// ─── Preview ledger (require_dry_run) ───────────────────────────
+
+/**
+ * Remembers which changes were previewed, by ledger key (see previewKey),
+ * until the dry run stops counting.
+ */
+export interface PreviewLedger {
+  /** Records `keys` as previewed until `expiresAt` (epoch milliseconds). */
+  note(keys: string[], expiresAt: number): Promise<void>;
+  has(key: string): Promise<boolean>;
+}
+
+export class MemoryPreviewLedger implements PreviewLedger {
+  private readonly previews = new Map<string, number>();
+
+  async note(keys: string[], expiresAt: number): Promise<void> {
+    const now = Date.now();
+    for (const [key, expires] of this.previews) if (expires < now) this.previews.delete(key);
+    for (const key of keys) this.previews.set(key, expiresAt);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (this.previews.get(key) ?? 0) >= Date.now();
+  }
+}
+
+/** KV rejects expirations shorter than 60 seconds. */
+const KV_MIN_TTL_S = 60;
+
+/**
+ * Stores previews as `preview:<ledger key>` keys that expire with the dry
+ * run. KV is eventually consistent, so a preview made in one location may
+ * take up to a minute to count for a write served from another.
+ */
+export class KvPreviewLedger implements PreviewLedger {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  async note(keys: string[], expiresAt: number): Promise<void> {
+    const expirationTtl = Math.max(KV_MIN_TTL_S, Math.ceil((expiresAt - Date.now()) / 1000));
+    await Promise.all(keys.map((key) => this.kv.put(`preview:${key}`, JSON.stringify(expiresAt), { expirationTtl })));
+  }
+
+  async has(key: string): Promise<boolean> {
+    const expiresAt = await this.kv.get(`preview:${key}`, "json");
+    return typeof expiresAt === "number" && expiresAt >= Date.now();
+  }
+}
+
+let _ledger: PreviewLedger | null = null;
+
+/**
+ * Returns the active preview ledger, defaulting to the memory ledger.
+ */
+export function getPreviewLedger(): PreviewLedger {
+  if (!_ledger) _ledger = new MemoryPreviewLedger();
+  return _ledger;
+}
+
+/**
+ * Replaces the active preview ledger (e.g. with a KV ledger on Workers).
+ */
+export function setPreviewLedger(ledger: PreviewLedger): void {
+  _ledger = ledger;
+}
+
+/**
+ * Ledger key for a change: who makes it, where, and a hash of the fields
+ * that define the record before and after. Tools build `after` in slightly
+ * different shapes, so only those fields count, with names fully qualified.
+ */
+function previewKey(zoneId: string, zoneName: string, change: PolicyChange): string {
+  const fields = (r: Record<string, unknown> | null) =>
+    r && [
+      r.type,
+      r.name === undefined ? undefined : qualifyName(String(r.name), zoneName),
+      r.content,
+      r.data,
+      r.ttl,
+      r.proxied,
+      r.priority,
+      r.comment,
+      r.tags,
+    ];
+  const content = [change.action, change.before?.id, fields(change.before), fields(change.after)];
+  const hash = createHash("sha256").update(JSON.stringify(content)).digest("hex");
+  return `${currentCaller()}|${zoneId}|${hash}`;
+}
+
+/**
+ * Records that the current caller previewed the given changes in a dry run.
+ */
+export async function notePreview(zoneId: string, changes: PolicyChange[]): Promise<void> {
+  if (!getPolicies().some((r) => r.type === "require_dry_run")) return;
+  const zoneName = await getZoneName(zoneId);
+  const keys = changes.map((change) => previewKey(zoneId, zoneName, change));
+  await getPreviewLedger().note(keys, Date.now() + POLICY_PREVIEW_TTL_MS);
+}
+
+function wasPreviewed(zoneId: string, zoneName: string, change: PolicyChange): Promise<boolean> {
+  return getPreviewLedger().has(previewKey(zoneId, zoneName, change));
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────
+
+function matches(rule: PolicyRule, zoneId: string, zoneName: string, record: Record<string, unknown>): boolean {
+  // A record known only by ID (its lookup failed) matches no name pattern
+  const name = record.name ? qualifyName(String(record.name), zoneName) : null;
+  if (rule.zones && !rule.zones.some((z) => z === zoneId || matchesGlob(z, zoneName))) return false;
+  const nameMatches = (pattern: string) =>
+    name !== null && (pattern === "@" ? name === zoneName.toLowerCase() : matchesGlob(pattern, name));
+  if (rule.names && !rule.names.some(nameMatches)) return false;
+  if (rule.types && !rule.types.some((t) => t.toUpperCase() === String(record.type ?? "").toUpperCase())) return false;
+  if (rule.tags) {
+    const tags = Array.isArray(record.tags) ? record.tags.map(String) : [];
+    if (!rule.tags.some((t) => tags.includes(t))) return false;
+  }
+  return true;
+}
+
+function describe(record: Record<string, unknown>, zoneName: string): string {
+  return `${record.type ?? "?"} ${qualifyName(String(record.name ?? record.id ?? "?"), zoneName)}`;
+}
+
+async function evaluate(
+  rule: PolicyRule,
+  zoneId: string,
+  zoneName: string,
+  change: PolicyChange,
+  previewing: boolean
+): Promise<string | null> {
+  const { before, after } = change;
+  const beforeMatches = !!before && matches(rule, zoneId, zoneName, before);
+  const afterMatches = !!after && matches(rule, zoneId, zoneName, after);
+
+  switch (rule.type) {
+    case "protect":
+      return beforeMatches || afterMatches ? `protected records may not be ${change.action}d.` : null;
+
+    case "require_dry_run": {
+      if (previewing || !(beforeMatches || afterMatches)) return null;
+      return (await wasPreviewed(zoneId, zoneName, change))
+        ? null
+        : "preview this exact change with dry_run=true (or the tool's preview step) before writing it.";
+    }
+
+    case "require_proxied":
+      // Cloudflare creates records unproxied when proxied is not given
+      if (!afterMatches || !["A", "AAAA", "CNAME"].includes(String(after!.type))) return null;
+      return after!.proxied === true ? null : "proxied must stay true.";
+
+    case "ttl_range": {
+      if (!afterMatches || after!.ttl === undefined || Number(after!.ttl) === 1) return null;
+      const ttl = Number(after!.ttl);
+      if (rule.min !== undefined && ttl < rule.min) return `TTL ${ttl} is below the minimum of ${rule.min}.`;
+      if (rule.max !== undefined && ttl > rule.max) return `TTL ${ttl} is above the maximum of ${rule.max}.`;
+      return null;
+    }
+  }
+}
+
+/**
+ * Returns every rule violation among `changes`. With `previewing`, the
+ * changes are a dry run, so require_dry_run rules are not checked.
+ */
+export async function checkPolicies(
+  zoneId: string,
+  changes: PolicyChange[],
+  previewing: boolean = false
+): Promise<PolicyViolation[]> {
+  const rules = getPolicies();
+  if (rules.length === 0 || changes.length === 0) return [];
+  const zoneName = await getZoneName(zoneId);
+
+  const violations: PolicyViolation[] = [];
+  for (const change of changes) {
+    for (const rule of rules) {
+      const message = await evaluate(rule, zoneId, zoneName, change, previewing);
+      if (message) {
+        const record = describe((change.after ?? change.before)!, zoneName);
+        violations.push({ rule: rule.name, type: rule.type, record, message });
+      }
+    }
+  }
+  return violations;
+}
+
+/**
+ * Throws PolicyViolationError if any change breaks a rule. Called by every
+ * write path before it writes.
+ */
+export async function enforcePolicies(zoneId: string, changes: PolicyChange[]): Promise<void> {
+  const violations = await checkPolicies(zoneId, changes);
+  if (violations.length > 0) throw new PolicyViolationError(violations);
+}
+
+/**
+ * Notes a dry run of `changes` and returns the policy violations they would
+ * meet, as conflict messages for the preview.
+ */
+export async function previewPolicies(zoneId: string, changes: PolicyChange[]): Promise<string[]> {
+  await notePreview(zoneId, changes);
+  const violations = await checkPolicies(zoneId, changes, true);
+  return violations.map((v) => `Policy '${v.rule}' (${v.type}) refuses ${v.record}: ${v.message}`);
+}
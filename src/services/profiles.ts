@@ -0,0 +1,132 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { getEnv } from "./env.js";
+
+/**
+ * Named credential profiles, for zones spread over several Cloudflare
+ * accounts with different API tokens.
+ *
+ * Profiles come from, in order:
+ *
+ *   - CLOUDFLARE_PROFILES: JSON, e.g. {"prod": "<token>", "agency": {"api_token": "<token>"}}
+ *   - CLOUDFLARE_PROFILES_FILE: path to a JSON file of the same shape
+ *   - CLOUDFLARE_API_TOKEN: a profile named "default"
+ *
+ * Tools take an optional `profile` argument. Without one, a call on a zone
+ * runs under whichever profile's account owns the zone (see
+ * resolveProfileForZone in cloudflare.ts); calls without a zone use the
+ * default profile — CLOUDFLARE_DEFAULT_PROFILE, else "default", else the
+ * first one configured.
+ *
+ * The profile for the tool call in progress is kept in AsyncLocalStorage,
+ * so getClient() picks the right token without it being passed around.
+ */
+
+export interface Profile {
+  name: string;
+  apiToken: string;
+}
+
+interface ActiveProfile {
+  profile: Profile;
+  /** True when the caller named the profile, so zone routing must not override it. */
+  explicit: boolean;
+}
+
+type ProfileConfig = Record<string, string | { api_token: string }>;
+
+let _profiles: Profile[] | null = null;
+const _active = new AsyncLocalStorage<ActiveProfile>();
+
+function parseProfiles(json: string, source: string): Profile[] {
+  let config: ProfileConfig;
+  try {
+    config = JSON.parse(json) as ProfileConfig;
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw new Error(`${source} must be a JSON object mapping profile names to API tokens.`);
+  }
+  return Object.entries(config).map(([name, value]) => {
+    const apiToken = typeof value === "string" ? value : value?.api_token;
+    if (!apiToken) throw new Error(`${source}: profile '${name}' has no API token.`);
+    return { name, apiToken };
+  });
+}
+
+/**
+ * Returns every configured profile. Throws when none is configured.
+ */
+export function getProfiles(): Profile[] {
+  if (_profiles) return _profiles;
+
+  const profiles: Profile[] = [];
+  const inline = getEnv("CLOUDFLARE_PROFILES");
+  if (inline) {
+    profiles.push(...parseProfiles(inline, "CLOUDFLARE_PROFILES"));
+  }
+  const path = getEnv("CLOUDFLARE_PROFILES_FILE");
+  if (path) {
+    profiles.push(...parseProfiles(readFileSync(path, "utf8"), path));
+  }
+  const token = getEnv("CLOUDFLARE_API_TOKEN");
+  if (token && !profiles.some((p) => p.name === "default")) {
+    profiles.push({ name: "default", apiToken: token });
+  }
+
+  if (profiles.length === 0) {
+    throw new Error(
+      "CLOUDFLARE_API_TOKEN environment variable is required (or CLOUDFLARE_PROFILES for several accounts). " +
+        "Create a token at https://dash.cloudflare.com/profile/api-tokens with Zone:Read and DNS:Edit permissions."
+    );
+  }
+  _profiles = profiles;
+  return profiles;
+}
+
+/**
+ * Returns a profile by name. Throws, listing the configured names, if unknown.
+ */
+export function getProfile(name: string): Profile {
+  const profile = getProfiles().find((p) => p.name === name);
+  if (!profile) {
+    throw new Error(`Unknown profile '${name}'. Configured profiles: ${getProfiles().map((p) => p.name).join(", ")}.`);
+  }
+  return profile;
+}
+
+function defaultProfile(): Profile {
+  const profiles = getProfiles();
+  const preferred = getEnv("CLOUDFLARE_DEFAULT_PROFILE");
+  if (preferred) return getProfile(preferred);
+  return profiles.find((p) => p.name === "default") ?? profiles[0];
+}
+
+/**
+ * Returns the profile of the tool call in progress, or the default profile.
+ */
+export function currentProfile(): Profile {
+  return _active.getStore()?.profile ?? defaultProfile();
+}
+
+/**
+ * True when the tool call in progress named its profile explicitly.
+ */
+export function isProfileExplicit(): boolean {
+  return _active.getStore()?.explicit ?? false;
+}
+
+/**
+ * Runs `fn` with `profile` as the current profile.
+ */
+export function runWithProfile<T>(profile: Profile, fn: () => Promise<T>, explicit: boolean = false): Promise<T> {
+  return _active.run({ profile, explicit }, fn);
+}
+
+/**
+ * Clears the loaded profiles (useful for testing).
+ */
+export function resetProfiles(): void {
+  _profiles = null;
+}
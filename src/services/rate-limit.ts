@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  RATE_LIMIT_REQUESTS,
+  RATE_LIMIT_WINDOW_MS,
+  RETRY_MAX_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+} from "../constants.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Client-side rate limiting for the Cloudflare API.
+ *
+ * Every request the SDK makes goes through rateLimitedFetch(): it takes a
+ * token from one process-wide bucket (Cloudflare allows 1,200 requests per
+ * 5 minutes per user), and retries 429 responses, and 5xx responses to
+ * requests that are safe to repeat, with jittered exponential backoff,
+ * honouring Retry-After. A POST that failed with a 5xx may still have been
+ * applied (e.g. a batch that committed before the error), so it is not
+ * retried. The bucket is shared by all tools and all HTTP sessions in the
+ * process.
+ *
+ * Waits and retries are recorded against the tool call in progress (via
+ * AsyncLocalStorage) so the tool output can say that it was throttled.
+ */
+
+/** Throttling experienced by one tool call. */
+export interface ThrottleReport {
+  /** Total time spent waiting for the limiter or backing off, in ms. */
+  waited_ms: number;
+  /** Requests that were retried, by HTTP status. */
+  retries: Record<string, number>;
+}
+
+const _reports = new AsyncLocalStorage<ThrottleReport>();
+
+/**
+ * Runs `fn` with a fresh throttle report and returns both. The report is
+ * filled in by any Cloudflare requests made while `fn` runs.
+ */
+export async function withThrottleReport<T>(fn: () => Promise<T>): Promise<{ result: T; report: ThrottleReport }> {
+  const report: ThrottleReport = { waited_ms: 0, retries: {} };
+  const result = await _reports.run(report, fn);
+  return { result, report };
+}
+
+/**
+ * Describes a throttle report for tool output, or returns null when the
+ * call was not throttled.
+ */
+export function describeThrottling(report: ThrottleReport): string | null {
+  const retried = Object.entries(report.retries);
+  if (report.waited_ms < 1000 && retried.length === 0) return null;
+  const parts = [`waited ${(report.waited_ms / 1000).toFixed(1)}s for the Cloudflare API rate limit`];
+  if (retried.length > 0) {
+    parts.push(`retried ${retried.map(([status, n]) => `${n}× HTTP ${status}`).join(", ")}`);
+  }
+  return `Note: this call was throttled — ${parts.join("; ")}. Space out large jobs or batch them to stay under 1,200 requests / 5 min.`;
+}
+
+// ─── Token bucket ───────────────────────────────────────────────
+
+export class TokenBucket {
+  private tokens: number;
+  private updated = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updated) * this.refillPerMs);
+    this.updated = now;
+  }
+
+  /**
+   * Takes one token, waiting for it if the bucket is empty. Returns the
+   * time waited in ms. Waiters are served in order because each one
+   * reserves its token (driving the balance negative) before sleeping.
+   */
+  async take(): Promise<number> {
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens >= 0) return 0;
+    const wait = Math.ceil(-this.tokens / this.refillPerMs);
+    await sleep(wait);
+    return wait;
+  }
+
+  /** Empties the bucket, e.g. after the server said we are over the limit. */
+  drain(): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0);
+  }
+}
+
+let _bucket: TokenBucket | null = null;
+
+function getBucket(): TokenBucket {
+  if (_bucket) return _bucket;
+  const limit = parseInt(getEnv("CLOUDFLARE_DNS_MCP_RATE_LIMIT") || "", 10) || RATE_LIMIT_REQUESTS;
+  _bucket = new TokenBucket(limit, limit / RATE_LIMIT_WINDOW_MS);
+  return _bucket;
+}
+
+// ─── Retrying fetch ─────────────────────────────────────────────
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Parses Retry-After (seconds or an HTTP date) into ms, or null. */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Full-jitter exponential backoff for the given retry attempt (0-based). */
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+}
+
+/** Methods whose requests can be repeated after a 5xx without applying twice. */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "PATCH"]);
+
+/** 429 means the request was not processed; a 5xx only for idempotent methods is safe to repeat. */
+function isRetryable(status: number, method: string): boolean {
+  return status === 429 || (status >= 500 && IDEMPOTENT_METHODS.has(method));
+}
+
+/**
+ * Wraps a fetch implementation with the shared rate limiter and retries.
+ * Used as the Cloudflare SDK's `fetch`, with the SDK's own retries off.
+ */
+export function rateLimitedFetch(fetchImpl: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const report = _reports.getStore();
+    const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+    for (let attempt = 0; ; attempt++) {
+      const waited = await getBucket().take();
+      if (report) report.waited_ms += waited;
+
+      const response = await fetchImpl(input, init);
+      if (!isRetryable(response.status, method) || attempt >= RETRY_MAX_ATTEMPTS) return response;
+
+      if (response.status === 429) getBucket().drain();
+      const delay = Math.min(RETRY_MAX_DELAY_MS, retryAfterMs(response) ?? backoffMs(attempt));
+      if (report) {
+        report.waited_ms += delay;
+        report.retries[response.status] = (report.retries[response.status] ?? 0) + 1;
+      }
+      // Release the connection before retrying
+      await response.body?.cancel();
+      await sleep(delay);
+    }
+  };
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { EventStore } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { DEFAULT_SESSION_IDLE_TIMEOUT_MS, EVENT_STORE_MAX_EVENTS } from "../constants.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Stateful Streamable HTTP sessions.
+ *
+ * In stateful mode (MCP_SESSION_MODE=stateful) an initialize request opens a
+ * session: one McpServer and transport that live across requests and are
+ * addressed by the Mcp-Session-Id header. Responses stream over SSE, a GET
+ * opens a standalone stream for server-to-client messages, and DELETE ends
+ * the session.
+ *
+ * Every SSE event is kept in the session's event store, so a client whose
+ * connection drops during a long bulk job reconnects with Last-Event-ID and
+ * receives the events it missed — the job itself keeps running server-side.
+ *
+ * Sessions are held in memory and belong to the credential that opened
+ * them. A session idle for longer than MCP_SESSION_IDLE_TIMEOUT (seconds,
+ * default 1800) is closed; one with a request in flight is never idle.
+ *
+ * In stateless mode every POST gets a fresh server and a plain JSON reply.
+ */
+
+export type SessionMode = "stateful" | "stateless";
+
+export interface Session {
+  id: string;
+  transport: WebStandardStreamableHTTPServerTransport;
+  server: McpServer;
+  /** Client ID of the credential that opened the session. */
+  clientId: string;
+  lastSeen: number;
+  /** JSON-RPC requests received and not yet answered. */
+  active: number;
+}
+
+// ─── Event store ────────────────────────────────────────────────
+
+/**
+ * Keeps the latest EVENT_STORE_MAX_EVENTS events of one session. Event IDs
+ * are `<streamId>_<seq>`, so the stream of an event is known from its ID.
+ */
+export class MemoryEventStore implements EventStore {
+  private readonly events: Array<{ id: string; streamId: string; message: JSONRPCMessage }> = [];
+  private seq = 0;
+
+  constructor(private readonly maxEvents: number = EVENT_STORE_MAX_EVENTS) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const id = `${streamId}_${++this.seq}`;
+    this.events.push({ id, streamId, message });
+    if (this.events.length > this.maxEvents) this.events.shift();
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.events.find((e) => e.id === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const index = this.events.findIndex((e) => e.id === lastEventId);
+    if (index === -1) throw new Error(`Event ${lastEventId} is no longer available.`);
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) await send(event.id, event.message);
+    }
+    return streamId;
+  }
+}
+
+// ─── Sessions ───────────────────────────────────────────────────
+
+const _sessions = new Map<string, Session>();
+
+/**
+ * Returns the session mode from MCP_SESSION_MODE, or `fallback` when unset.
+ */
+export function getSessionMode(fallback: SessionMode): SessionMode {
+  const mode = getEnv("MCP_SESSION_MODE");
+  if (!mode) return fallback;
+  if (mode !== "stateful" && mode !== "stateless") {
+    throw new Error(`MCP_SESSION_MODE must be 'stateful' or 'stateless', got '${mode}'.`);
+  }
+  return mode;
+}
+
+function idleTimeoutMs(): number {
+  const seconds = parseInt(getEnv("MCP_SESSION_IDLE_TIMEOUT") ?? "", 10);
+  return Number.isNaN(seconds) || seconds <= 0 ? DEFAULT_SESSION_IDLE_TIMEOUT_MS : seconds * 1000;
+}
+
+/**
+ * Creates the transport for a new session. The session is registered once
+ * the transport has handled the initialize request and assigned its ID.
+ */
+export async function openSession(server: McpServer, clientId: string): Promise<WebStandardStreamableHTTPServerTransport> {
+  const session: Omit<Session, "id" | "transport"> = { server, clientId, lastSeen: Date.now(), active: 0 };
+  const transport = new WebStandardStreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new MemoryEventStore(),
+    onsessioninitialized: (id) => {
+      _sessions.set(id, Object.assign(session, { id, transport }));
+    },
+    onsessionclosed: (id) => {
+      _sessions.delete(id);
+    },
+  });
+  await server.connect(transport);
+
+  // A request is in flight from its arrival until its response is sent,
+  // even if the client has disconnected in between
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if ("method" in message && "id" in message) session.active++;
+    session.lastSeen = Date.now();
+    onmessage?.(message, extra);
+  };
+  const send = transport.send.bind(transport);
+  transport.send = (message, options) => {
+    if ("result" in message || "error" in message) session.active = Math.max(0, session.active - 1);
+    session.lastSeen = Date.now();
+    return send(message, options);
+  };
+  return transport;
+}
+
+/**
+ * Returns the session with the given ID, if it exists and belongs to
+ * `clientId`. Another credential's session is reported as not found.
+ */
+export function getSession(id: string, clientId: string): Session | undefined {
+  const session = _sessions.get(id);
+  if (session?.clientId !== clientId) return undefined;
+  session.lastSeen = Date.now();
+  return session;
+}
+
+/**
+ * Closes every session idle for longer than the timeout. Called on each
+ * HTTP request, and periodically by the Node server.
+ */
+export async function expireIdleSessions(): Promise<void> {
+  const cutoff = Date.now() - idleTimeoutMs();
+  for (const session of [..._sessions.values()]) {
+    if (session.active > 0 || session.lastSeen >= cutoff) continue;
+    _sessions.delete(session.id);
+    try {
+      await session.server.close();
+    } catch (error) {
+      console.error(`Closing session ${session.id} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
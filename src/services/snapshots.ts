@@ -0,0 +1,227 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { getEnv } from "./env.js";
+import type { DesiredRecord } from "../utils/diff.js";
+
+/**
+ * Zone snapshot storage.
+ *
+ * Snapshots capture a zone's full record set — including comments, tags and
+ * structured data, which BIND export drops — so a zone can be restored to a
+ * point in time. Storage is pluggable:
+ *
+ *   - Node (default): JSON files under CLOUDFLARE_DNS_MCP_SNAPSHOT_DIR
+ *     (default ~/.cloudflare-dns-mcp/snapshots)
+ *   - Workers: a KV namespace, installed with setSnapshotStore(new KvSnapshotStore(env.SNAPSHOTS))
+ */
+
+/** A record as captured in a snapshot. */
+export interface SnapshotRecord {
+  id: string;
+  type: string;
+  name: string;
+  content: string;
+  ttl: number;
+  proxied?: boolean;
+  priority?: number;
+  comment?: string | null;
+  tags?: string[];
+  data?: Record<string, unknown>;
+}
+
+export interface SnapshotMeta {
+  id: string;
+  zone_id: string;
+  zone_name: string;
+  label?: string;
+  created_at: string;
+  record_count: number;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  records: SnapshotRecord[];
+}
+
+export interface SnapshotStore {
+  put(snapshot: Snapshot): Promise<void>;
+  get(id: string): Promise<Snapshot | null>;
+  /** Newest first; optionally limited to one zone. */
+  list(zoneId?: string): Promise<SnapshotMeta[]>;
+}
+
+function toMeta(snapshot: Snapshot): SnapshotMeta {
+  const { records: _records, ...meta } = snapshot;
+  return meta;
+}
+
+function newestFirst(a: SnapshotMeta, b: SnapshotMeta): number {
+  return b.created_at.localeCompare(a.created_at);
+}
+
+// ─── File store (Node) ──────────────────────────────────────────
+
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly dir: string) {}
+
+  private path(id: string): string {
+    if (!/^snap_[\w-]+$/.test(id)) throw new Error(`Invalid snapshot ID '${id}'.`);
+    return join(this.dir, `${id}.json`);
+  }
+
+  async put(snapshot: Snapshot): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.path(snapshot.id), JSON.stringify(snapshot), "utf8");
+  }
+
+  async get(id: string): Promise<Snapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.path(id), "utf8")) as Snapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async list(zoneId?: string): Promise<SnapshotMeta[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.dir)).filter((f) => f.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const metas: SnapshotMeta[] = [];
+    for (const file of files) {
+      const snapshot = JSON.parse(await readFile(join(this.dir, file), "utf8")) as Snapshot;
+      if (!zoneId || snapshot.zone_id === zoneId) metas.push(toMeta(snapshot));
+    }
+    return metas.sort(newestFirst);
+  }
+}
+
+// ─── KV store (Workers) ─────────────────────────────────────────
+
+/** The subset of a Workers KV namespace binding the store needs. */
+export interface KvNamespaceLike {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string, options?: { metadata?: unknown; expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string; metadata?: unknown }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+/**
+ * Stores snapshots as `snapshot:<id>` keys, with the metadata duplicated into
+ * KV key metadata so listing needs no extra reads.
+ */
+export class KvSnapshotStore implements SnapshotStore {
+  constructor(private readonly kv: KvNamespaceLike) {}
+
+  async put(snapshot: Snapshot): Promise<void> {
+    await this.kv.put(`snapshot:${snapshot.id}`, JSON.stringify(snapshot), { metadata: toMeta(snapshot) });
+  }
+
+  async get(id: string): Promise<Snapshot | null> {
+    return (await this.kv.get(`snapshot:${id}`, "json")) as Snapshot | null;
+  }
+
+  async list(zoneId?: string): Promise<SnapshotMeta[]> {
+    const metas: SnapshotMeta[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix: "snapshot:", cursor });
+      for (const key of page.keys) {
+        const meta = key.metadata as SnapshotMeta | undefined;
+        if (meta && (!zoneId || meta.zone_id === zoneId)) metas.push(meta);
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return metas.sort(newestFirst);
+  }
+}
+
+// ─── Active store ───────────────────────────────────────────────
+
+let _store: SnapshotStore | null = null;
+
+/**
+ * Returns the active snapshot store, defaulting to the file store.
+ */
+export function getSnapshotStore(): SnapshotStore {
+  if (_store) return _store;
+  const dir =
+    getEnv("CLOUDFLARE_DNS_MCP_SNAPSHOT_DIR") || join(homedir(), ".cloudflare-dns-mcp", "snapshots");
+  _store = new FileSnapshotStore(dir);
+  return _store;
+}
+
+/**
+ * Replaces the active snapshot store (e.g. with a KV store on Workers).
+ */
+export function setSnapshotStore(store: SnapshotStore): void {
+  _store = store;
+}
+
+/**
+ * Builds a snapshot from live Cloudflare records.
+ */
+export function buildSnapshot(
+  zoneId: string,
+  zoneName: string,
+  records: Record<string, unknown>[],
+  label?: string
+): Snapshot {
+  const now = new Date();
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+  return {
+    id: `snap_${stamp}_${randomBytes(3).toString("hex")}`,
+    zone_id: zoneId,
+    zone_name: zoneName,
+    ...(label ? { label } : {}),
+    created_at: now.toISOString(),
+    record_count: records.length,
+    records: records.map(toSnapshotRecord),
+  };
+}
+
+/**
+ * Reduces a live Cloudflare record to the fields a snapshot keeps.
+ */
+export function toSnapshotRecord(r: Record<string, unknown>): SnapshotRecord {
+  return {
+    id: String(r.id),
+    type: String(r.type),
+    name: String(r.name),
+    content: String(r.content ?? ""),
+    ttl: Number(r.ttl ?? 1),
+    ...(r.proxied !== undefined ? { proxied: Boolean(r.proxied) } : {}),
+    ...(r.priority !== undefined ? { priority: Number(r.priority) } : {}),
+    comment: (r.comment as string | null | undefined) ?? null,
+    tags: Array.isArray(r.tags) ? (r.tags as string[]) : [],
+    ...(r.data ? { data: r.data as Record<string, unknown> } : {}),
+  };
+}
+
+/**
+ * Converts a snapshot into a desired record set for diffing. Comments and
+ * tags are always included so that changes to them are restored too.
+ */
+export function snapshotToDesired(snapshot: Snapshot): DesiredRecord[] {
+  return snapshot.records.map((r) => ({
+    type: r.type,
+    name: r.name,
+    content: r.content,
+    ttl: r.ttl,
+    ...(["A", "AAAA", "CNAME"].includes(r.type) && r.proxied !== undefined ? { proxied: r.proxied } : {}),
+    ...(r.priority !== undefined ? { priority: r.priority } : {}),
+    comment: r.comment ?? "",
+    tags: r.tags ?? [],
+    ...(r.data ? { data: r.data } : {}),
+  }));
+}
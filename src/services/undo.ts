@@ -0,0 +1,156 @@
+import { UNDO_SCAN_LIMIT } from "../constants.js";
+import { getJournalStore } from "./journal.js";
+import type { JournalEntry, JournalRecord } from "./journal.js";
+import type { BatchRequest } from "./cloudflare.js";
+import { recordKey } from "../utils/records.js";
+
+/**
+ * Reverting journaled changes.
+ *
+ * A "change" is everything one tool call wrote, identified by its change_id.
+ * Undoing a set of changes works per record: the oldest journaled state of
+ * each touched record is what it is restored to, and the newest journaled
+ * state is what the live record must still look like. So a record created and
+ * then updated within the undone changes is simply deleted, and a record
+ * updated and then deleted is re-created as it was before the update.
+ */
+
+export interface UndoStep {
+  action: "delete" | "restore" | "recreate";
+  record_id: string;
+  /** State being reverted to (null when the undo deletes the record). */
+  to: JournalRecord | null;
+  /** Set when the live record no longer matches the journal. */
+  conflict?: string;
+}
+
+export interface UndoPlan {
+  change_ids: string[];
+  steps: UndoStep[];
+  conflicts: number;
+}
+
+/**
+ * Loads the changes to undo for a zone, newest first: either one change by
+ * ID, or the most recent `last` changes that have not already been undone.
+ * Changes made by cf_dns_undo itself are not counted — undoing an undo is
+ * done by its change ID.
+ */
+export async function selectChanges(
+  zoneId: string,
+  selection: { change_id?: string; last?: number }
+): Promise<JournalEntry[][]> {
+  const entries = await getJournalStore().query({ zone_id: zoneId, limit: UNDO_SCAN_LIMIT });
+  const reverted = new Set(entries.flatMap((e) => e.reverts ?? []));
+
+  if (selection.change_id) {
+    const change = entries.filter((e) => e.change_id === selection.change_id);
+    if (change.length === 0) {
+      throw new Error(`Change '${selection.change_id}' not found for this zone. Use cf_dns_audit_log to find change IDs.`);
+    }
+    if (reverted.has(selection.change_id)) {
+      throw new Error(`Change '${selection.change_id}' has already been undone.`);
+    }
+    return [change];
+  }
+
+  const groups = new Map<string, JournalEntry[]>();
+  for (const entry of entries) {
+    if (entry.reverts || reverted.has(entry.change_id)) continue;
+    const group = groups.get(entry.change_id);
+    if (group) group.push(entry);
+    else if (groups.size < (selection.last ?? 1)) groups.set(entry.change_id, [entry]);
+  }
+  if (groups.size === 0) throw new Error("No journaled changes to undo for this zone.");
+  return [...groups.values()];
+}
+
+/** The fields written back when restoring or re-creating a record. */
+function restorePayload(r: JournalRecord): Record<string, unknown> {
+  return {
+    type: r.type,
+    name: r.name,
+    content: r.content,
+    ttl: r.ttl,
+    ...(["A", "AAAA", "CNAME"].includes(r.type) && r.proxied !== undefined ? { proxied: r.proxied } : {}),
+    ...(r.priority !== undefined ? { priority: r.priority } : {}),
+    comment: r.comment ?? "",
+    tags: r.tags ?? [],
+    ...(r.data ? { data: r.data } : {}),
+  };
+}
+
+/**
+ * Works out the batch that reverts the given changes, checking each record
+ * against the live zone. Conflicting records are left out of the batch,
+ * except that with `force` records that were modified again are overwritten.
+ */
+export function planUndo(
+  changes: JournalEntry[][],
+  live: Record<string, unknown>[],
+  force: boolean
+): { plan: UndoPlan; ops: BatchRequest } {
+  const liveById = new Map(live.map((r) => [String(r.id), r]));
+  const liveKeys = new Set(live.map(recordKey));
+
+  // Journal entries per record, oldest first
+  const byRecord = new Map<string, JournalEntry[]>();
+  for (const entry of changes.flat().reverse()) {
+    const list = byRecord.get(entry.record_id) ?? [];
+    list.push(entry);
+    byRecord.set(entry.record_id, list);
+  }
+
+  const steps: UndoStep[] = [];
+  const ops: Required<BatchRequest> = { deletes: [], patches: [], puts: [], posts: [] };
+
+  for (const [recordId, entries] of byRecord) {
+    const oldest = entries[0];
+    const newest = entries[entries.length - 1];
+    const target = oldest.before;
+
+    if (newest.action === "delete") {
+      // Created and deleted within the undone changes: nothing to revert
+      if (!target) continue;
+      const conflict = liveKeys.has(recordKey(target))
+        ? "An identical record already exists in the zone."
+        : undefined;
+      steps.push({ action: "recreate", record_id: recordId, to: target, ...(conflict ? { conflict } : {}) });
+      if (!conflict) ops.posts.push(restorePayload(target));
+      continue;
+    }
+
+    if (!target && oldest.action !== "create") {
+      steps.push({ action: "restore", record_id: recordId, to: null, conflict: "The journal has no prior state for this record." });
+      continue;
+    }
+
+    const current = liveById.get(recordId);
+    const expected = newest.after?.modified_on;
+    let conflict: string | undefined;
+    if (!current) {
+      conflict = "Record no longer exists.";
+    } else if (expected && current.modified_on !== expected) {
+      conflict = `Record was modified again at ${String(current.modified_on)}.`;
+    }
+
+    steps.push({
+      action: target ? "restore" : "delete",
+      record_id: recordId,
+      to: target,
+      ...(conflict ? { conflict } : {}),
+    });
+    if (!current || (conflict && !force)) continue;
+    if (target) ops.patches.push({ ...restorePayload(target), id: recordId });
+    else ops.deletes.push(recordId);
+  }
+
+  return {
+    plan: {
+      change_ids: changes.map((c) => c[0].change_id),
+      steps,
+      conflicts: steps.filter((s) => s.conflict).length,
+    },
+    ops,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Continuation tool: cf_dns_continue
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CONTINUATION_TTL_MS } from "../constants.js";
+import { continueResponse } from "../services/continuations.js";
+import { handleApiError } from "../utils/errors.js";
+import { ContinueSchema } from "../schemas/continuations.js";
+import type { ContinueInput } from "../schemas/continuations.js";
+
+export function registerContinuationTools(server: McpServer): void {
+  // ─── cf_dns_continue ─────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_continue",
+    {
+      title: "Continue Oversized Response",
+      description:
+        `Fetch the next chunk of a response that was too long to return at once. ` +
+        `Any tool whose output exceeds the size limit returns its first chunk with a footer ` +
+        `"--- CONTINUED (chunk i of n) ---" and a cursor; pass that cursor here.\n\n` +
+        `Each chunk starts exactly where the previous one stopped — concatenate them to get the full output ` +
+        `(a BIND export reassembles into the complete zonefile). The last chunk ends with "--- END ---". ` +
+        `Cursors expire after ${CONTINUATION_TTL_MS / 60_000} minutes and only work for the credential that got them; ` +
+        `repeating a cursor returns the same chunk.\n\n` +
+        `Returns: the next chunk of the original output, followed by the next cursor if more remains.`,
+      inputSchema: ContinueSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params: ContinueInput) => {
+      try {
+        return { content: [{ type: "text" as const, text: continueResponse(params.cursor) }] };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
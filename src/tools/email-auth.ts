@@ -0,0 +1,253 @@
+/**
+ * Email authentication tools: cf_dns_email_auth_check, cf_dns_email_auth_set
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchAllRecords, getZoneName, resolveZoneId } from "../services/cloudflare.js";
+import type { BatchRequest } from "../services/cloudflare.js";
+import { accountTxtLookup, checkSpf, checkDmarc, checkDkim } from "../services/email-auth.js";
+import type { SpfNode, TxtLookup } from "../services/email-auth.js";
+import { runJournaledBatch, writeContext } from "../services/journal.js";
+import { batchChanges, previewPolicies } from "../services/policy.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { handleApiError } from "../utils/errors.js";
+import { normalizeContent, qualifyName } from "../utils/records.js";
+import {
+  SPF_LOOKUP_LIMIT,
+  isSpf,
+  isDmarc,
+  buildSpf,
+  buildDmarc,
+  buildDkim,
+  parseSpf,
+  parseDmarc,
+  parseDkim,
+  dmarcName,
+  dkimName,
+} from "../utils/email-auth.js";
+import { EmailAuthCheckSchema, EmailAuthSetSchema } from "../schemas/email-auth.js";
+import type { EmailAuthCheckInput, EmailAuthSetInput } from "../schemas/email-auth.js";
+
+/** One record cf_dns_email_auth_set wants to write. */
+interface EmailAuthChange {
+  kind: "spf" | "dmarc" | "dkim";
+  name: string;
+  content: string;
+  /** Picks the existing TXT records this one replaces. */
+  replaces: (value: string) => boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+function hasSpfErrors(node: SpfNode): boolean {
+  return node.errors.length > 0 || node.includes.some(hasSpfErrors);
+}
+
+export function registerEmailAuthTools(server: McpServer): void {
+  // ─── cf_dns_email_auth_check ─────────────────────────────────
+  server.registerTool(
+    "cf_dns_email_auth_check",
+    {
+      title: "Check Email Authentication (SPF/DKIM/DMARC)",
+      description:
+        `Parse and validate a domain's SPF, DMARC and DKIM records. Nothing is written.\n\n` +
+        `  • SPF   → mechanisms, syntax errors, and the DNS lookup count against the limit of ${SPF_LOOKUP_LIMIT}. ` +
+        `include:/redirect= targets in zones this token can access are followed; others are listed as unresolved ` +
+        `(their own lookups are not counted, so the total is then a minimum).\n` +
+        `  • DMARC → policy, report addresses, alignment, errors and weak settings\n` +
+        `  • DKIM  → key type, approximate key size, revoked/testing keys; CNAME-delegated selectors are reported as such\n\n` +
+        `Returns: { domain, ok, spf: { lookups, lookup_limit, over_limit, unresolved, tree }, dmarc, dkim[] }`,
+      inputSchema: EmailAuthCheckSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: EmailAuthCheckInput) => {
+      try {
+        const zoneId = await resolveZoneId(params);
+        const zoneName = await getZoneName(zoneId);
+        const records = await fetchAllRecords(zoneId);
+        const domain = qualifyName(params.domain ?? "@", zoneName);
+
+        const spf = await checkSpf(domain, accountTxtLookup(zoneName, records));
+        const dmarc = checkDmarc(domain, records);
+        const dkim = checkDkim(domain, records, params.dkim_selectors);
+
+        const ok =
+          !spf.over_limit &&
+          !hasSpfErrors(spf.tree) &&
+          dmarc.errors.length === 0 &&
+          dkim.every((d) => d.errors.length === 0);
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: chunkIfNeeded(JSON.stringify({ domain, ok, spf, dmarc, dkim }, null, 2)),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ─── cf_dns_email_auth_set ───────────────────────────────────
+  server.registerTool(
+    "cf_dns_email_auth_set",
+    {
+      title: "Set Email Authentication Records (SPF/DKIM/DMARC)",
+      description:
+        `Generate SPF, DMARC and/or DKIM records from structured input and write them.\n\n` +
+        `  • spf   → { ip4, ip6, include, a, mx, all } at the domain\n` +
+        `  • dmarc → { policy, subdomain_policy, pct, rua, ruf, adkim, aspf } at _dmarc.<domain>\n` +
+        `  • dkim  → { selector, key_type, public_key } at <selector>._domainkey.<domain>\n\n` +
+        `An existing record of the same kind is updated in place; duplicate SPF/DMARC records are deleted. ` +
+        `Generated records are validated first, and an SPF record needing more than ${SPF_LOOKUP_LIMIT} lookups is refused. ` +
+        `All changes are applied atomically in one batch.\n` +
+        `dry_run=true: return the generated records and what would change without writing.\n\n` +
+        `Returns: { domain, changes: [{ kind, name, action, before, after, warnings }] }`,
+      inputSchema: EmailAuthSetSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: EmailAuthSetInput, extra) => {
+      // Checked here rather than in the schema, which must stay a plain object to be listed
+      if (!params.spf && !params.dmarc && !params.dkim) {
+        return {
+          content: [{ type: "text" as const, text: "Provide at least one of spf, dmarc or dkim." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const zoneId = await resolveZoneId(params);
+        const zoneName = await getZoneName(zoneId);
+        const records = await fetchAllRecords(zoneId);
+        const domain = qualifyName(params.domain ?? "@", zoneName);
+
+        // Generate and validate each requested record
+        const changes: EmailAuthChange[] = [];
+        if (params.spf) {
+          const content = buildSpf(params.spf);
+          const { errors, warnings } = parseSpf(content);
+          changes.push({ kind: "spf", name: domain, content, replaces: isSpf, errors, warnings });
+        }
+        if (params.dmarc) {
+          const content = buildDmarc(params.dmarc);
+          const { errors, warnings } = parseDmarc(content);
+          changes.push({ kind: "dmarc", name: dmarcName(domain), content, replaces: isDmarc, errors, warnings });
+        }
+        if (params.dkim) {
+          const name = dkimName(params.dkim.selector, domain);
+          const content = buildDkim(params.dkim);
+          const { errors, warnings } = parseDkim(content);
+          if (records.some((r) => r.type === "CNAME" && String(r.name).toLowerCase() === name)) {
+            errors.push(`${name} is a CNAME (delegated to a provider). Delete it before publishing a key here.`);
+          }
+          changes.push({ kind: "dkim", name, content, replaces: () => true, errors, warnings });
+        }
+
+        // Count SPF lookups with the new record in place of the live one
+        const spfChange = changes.find((c) => c.kind === "spf");
+        if (spfChange) {
+          const live = accountTxtLookup(zoneName, records);
+          const lookup: TxtLookup = async (name) => (name === domain ? [spfChange.content] : live(name));
+          const spf = await checkSpf(domain, lookup);
+          if (spf.over_limit) {
+            spfChange.errors.push(
+              `SPF record needs ${spf.lookups} DNS lookups; the limit is ${SPF_LOOKUP_LIMIT}. ` +
+                `Replace some include: entries with ip4:/ip6: ranges.`
+            );
+          }
+          if (spf.unresolved.length > 0) {
+            spfChange.warnings.push(
+              `Lookups inside ${spf.unresolved.join(", ")} are outside this account and not counted.`
+            );
+          }
+        }
+
+        const failed = changes.filter((c) => c.errors.length > 0);
+        if (failed.length > 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text:
+                `Nothing was written — the generated records are invalid:\n` +
+                failed.map((c) => `  ${c.kind} (${c.name}): ${c.errors.join(" ")}`).join("\n"),
+            }],
+            isError: true,
+          };
+        }
+
+        // Work out the writes against the live records
+        const ops: Required<Omit<BatchRequest, "puts">> = { deletes: [], patches: [], posts: [] };
+        const summary = changes.map((c) => {
+          const existing = records.filter(
+            (r) =>
+              r.type === "TXT" &&
+              String(r.name).toLowerCase() === c.name &&
+              c.replaces(normalizeContent("TXT", String(r.content ?? "")))
+          );
+          const [current, ...duplicates] = existing;
+          const before = current ? normalizeContent("TXT", String(current.content ?? "")) : null;
+          ops.deletes.push(...duplicates.map((r) => String(r.id)));
+
+          let action: "create" | "update" | "unchanged";
+          if (!current) {
+            action = "create";
+            ops.posts.push({ type: "TXT", name: c.name, content: c.content, ttl: params.ttl });
+          } else if (before !== c.content) {
+            action = "update";
+            ops.patches.push({ id: String(current.id), content: c.content });
+          } else {
+            action = "unchanged";
+          }
+          return {
+            kind: c.kind,
+            name: c.name,
+            action,
+            before,
+            after: c.content,
+            ...(duplicates.length > 0 ? { removed_duplicates: duplicates.length } : {}),
+            ...(c.warnings.length > 0 ? { warnings: c.warnings } : {}),
+          };
+        });
+
+        const hasWrites = ops.deletes.length + ops.patches.length + ops.posts.length > 0;
+        let refused: string[] = [];
+        if (params.dry_run) {
+          refused = await previewPolicies(zoneId, batchChanges(ops, new Map(records.map((r) => [String(r.id), r]))));
+        } else if (hasWrites) {
+          await runJournaledBatch(writeContext("cf_dns_email_auth_set", extra.authInfo), zoneId, ops, records);
+        }
+
+        const output = {
+          ...(params.dry_run ? { dry_run: true } : {}),
+          domain,
+          changes: summary,
+          ...(refused.length > 0 ? { policy_conflicts: refused } : {}),
+        };
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(output, null, 2),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
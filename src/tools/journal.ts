@@ -0,0 +1,191 @@
+/**
+ * Audit journal tools: cf_dns_audit_log, cf_dns_undo
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { canAccessZone, fetchAllRecords, resolveZoneId } from "../services/cloudflare.js";
+import { getJournalStore, runJournaledBatch, writeContext } from "../services/journal.js";
+import { batchChanges, previewPolicies } from "../services/policy.js";
+import { assertUnchanged, batchHash, issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
+import { selectChanges, planUndo } from "../services/undo.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { formatRecords } from "../formatters/record.js";
+import { renderOutput } from "../formatters/output.js";
+import { handleApiError } from "../utils/errors.js";
+import { AuditLogSchema, UndoSchema } from "../schemas/journal.js";
+import type { AuditLogInput, UndoInput } from "../schemas/journal.js";
+
+export function registerJournalTools(server: McpServer): void {
+  // ─── cf_dns_audit_log ────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_audit_log",
+    {
+      title: "Query DNS Audit Log",
+      description:
+        `Query the audit journal of record changes made through this server, newest first.\n\n` +
+        `Every create, update and delete by the write, bulk, import, apply and restore tools is journaled ` +
+        `with the time, the caller (API key or bearer token fingerprint, or 'local' for stdio), the tool, ` +
+        `the zone, and the record state before and after.\n\n` +
+        `Filters (all optional, combined with AND): zone_id or zone_name, record_id, tool, since, until.\n` +
+        `Entries from one tool call share a change_id.\n\n` +
+        `Returns: { count, entries: [{ id, timestamp, caller, tool, zone_id, record_id, action, before, after, change_id }] }`,
+      inputSchema: AuditLogSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params: AuditLogInput) => {
+      try {
+        const zoneId = params.zone_id || params.zone_name ? await resolveZoneId(params) : undefined;
+        // Zone rules filter inside the query, so hidden entries don't use up the limit
+        const entries = await getJournalStore().query({
+          zone_id: zoneId,
+          record_id: params.record_id,
+          tool: params.tool,
+          since: params.since,
+          until: params.until,
+          zoneVisible: (id) => canAccessZone(id),
+          limit: params.limit,
+        });
+        return {
+          content: [{
+            type: "text" as const,
+            text: chunkIfNeeded(renderOutput({ count: entries.length, entries }, params.format)),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ─── cf_dns_undo ─────────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_undo",
+    {
+      title: "Undo DNS Changes",
+      description:
+        `Revert journaled changes to a zone: either one change by change_id (from cf_dns_audit_log), ` +
+        `or the last N changes that have not been undone yet.\n\n` +
+        `  • created records are deleted\n` +
+        `  • updated records are patched back to their previous values\n` +
+        `  • deleted records are re-created (with new IDs)\n\n` +
+        `If a record was modified again after the change, the undo is refused and the conflicts are listed; ` +
+        `pass force=true to overwrite them (records that no longer exist, or were already re-created, are then skipped).\n` +
+        `The revert is applied atomically in one batch request and is itself journaled, so it can be undone by its change_id.\n` +
+        `dry_run=true: show what would be reverted, and any conflicts, without writing.\n\n` +
+        `Undos that delete or patch records are two-step:\n` +
+        `  1. Call without confirmation_token → returns the preview and a confirmation_token. Nothing is written.\n` +
+        `  2. Call again with the same change_id or last (and force) plus confirmation_token=<token>.\n` +
+        `     The token is single-use, expires after 5 minutes, and is refused if the revert differs from the preview ` +
+        `or a record it deletes or patches changed.\n\n` +
+        `Returns: preview { dry_run, change_ids, steps[], conflicts, confirmation_token? } or ` +
+        `{ undone: [change_id], deleted, restored, recreated, steps[], records: { restored, recreated } }`,
+      inputSchema: UndoSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: UndoInput, extra) => {
+      // Checked here rather than in the schema, which must stay a plain object to be listed
+      if ((params.change_id === undefined) === (params.last === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide exactly one of change_id or last." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const tool = "cf_dns_undo";
+        const zoneId = await resolveZoneId(params);
+        const changes = await selectChanges(zoneId, params);
+        const live = await fetchAllRecords(zoneId);
+        const { plan, ops } = planUndo(changes, live, params.force);
+        // Deletes and patches change existing records, so they need a confirmed preview
+        const atRiskIds = new Set([...(ops.deletes ?? []), ...(ops.patches ?? []).map((p) => p.id)]);
+        const atRisk = live.filter((r) => atRiskIds.has(String(r.id)));
+        const scope = { ops_hash: batchHash(ops) };
+        const blocked = plan.conflicts > 0 && !params.force;
+
+        if (params.dry_run || (!blocked && atRisk.length > 0 && !params.confirmation_token)) {
+          const refused = await previewPolicies(zoneId, batchChanges(ops, new Map(live.map((r) => [String(r.id), r]))));
+          const confirmation = !blocked && atRisk.length > 0 ? await issueConfirmation(tool, zoneId, atRisk, scope) : null;
+          const output = {
+            dry_run: true,
+            operation: "undo",
+            ...plan,
+            ...(refused.length > 0 ? { policy_conflicts: refused } : {}),
+            ...(confirmation
+              ? {
+                  confirmation_token: confirmation.token,
+                  expires_at: new Date(confirmation.expires_at).toISOString(),
+                  next_step: `To apply, call again with the same selection plus confirmation_token="${confirmation.token}".`,
+                }
+              : {}),
+          };
+          return {
+            content: [{
+              type: "text" as const,
+              text: chunkIfNeeded(JSON.stringify(output, null, 2)),
+            }],
+          };
+        }
+
+        if (blocked) {
+          return {
+            content: [{
+              type: "text" as const,
+              text:
+                `Undo refused: ${plan.conflicts} record(s) changed since the change was made. ` +
+                `Review the conflicts below, then call again with force=true to overwrite them.\n\n` +
+                chunkIfNeeded(JSON.stringify(plan, null, 2)),
+            }],
+            isError: true,
+          };
+        }
+
+        if (!ops.deletes?.length && !ops.patches?.length && !ops.posts?.length) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({ undone: [], steps: plan.steps, message: "Nothing left to revert." }, null, 2),
+            }],
+          };
+        }
+
+        if (atRisk.length > 0) {
+          assertUnchanged(await redeemConfirmation(params.confirmation_token!, tool, zoneId, scope), atRisk);
+        }
+        const ctx = { ...writeContext(tool, extra.authInfo), reverts: plan.change_ids };
+        const result = await runJournaledBatch(ctx, zoneId, ops, live);
+        const output = {
+          undone: plan.change_ids,
+          deleted: result.deletes.length,
+          restored: result.patches.length,
+          recreated: result.posts.length,
+          steps: plan.steps,
+          records: {
+            restored: formatRecords(result.patches, true),
+            recreated: formatRecords(result.posts, true),
+          },
+        };
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
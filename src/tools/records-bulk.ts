@@ -1,12 +1,103 @@
 /**
- * Bulk DNS record tools: cf_dns_bulk_create, cf_dns_bulk_update
+ * Bulk DNS record tools: cf_dns_bulk_create, cf_dns_bulk_update, cf_dns_batch,
+ * cf_dns_bulk_delete
+ *
+ * All run through Cloudflare's batch DNS records endpoint, so each call (or,
+ * for large bulk deletes, each chunk) is a single transaction: either every
+ * operation applies or none do.
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getClient } from "../services/cloudflare.js";
-import { formatRecord } from "../formatters/record.js";
+import { BatchRejectedError, fetchAllRecords, fetchFilteredRecords, resolveZoneId } from "../services/cloudflare.js";
+import type { BatchRequest } from "../services/cloudflare.js";
+import { previewBatch, previewBulkCreate, previewBulkUpdate } from "../services/dry-run.js";
+import type { RecordPreview } from "../services/dry-run.js";
+import { runJournaledBatch, writeContext } from "../services/journal.js";
+import { enforcePolicies, previewPolicies } from "../services/policy.js";
+import { assertUnchanged, batchHash, issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
+import type { PolicyChange } from "../services/policy.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { formatRecords } from "../formatters/record.js";
 import { handleApiError } from "../utils/errors.js";
-import { BulkCreateSchema, BulkUpdateSchema } from "../schemas/records.js";
-import type { BulkCreateInput, BulkUpdateInput } from "../schemas/records.js";
+import { validatePatch } from "../utils/validation.js";
+import { BATCH_CHUNK_SIZE } from "../constants.js";
+import { BulkCreateSchema, BulkUpdateSchema, BatchSchema, BulkDeleteSchema } from "../schemas/records.js";
+import type {
+  BulkCreateInput,
+  BulkUpdateInput,
+  BatchInput,
+  BulkDeleteInput,
+  RecordEntry,
+} from "../schemas/records.js";
+
+type BulkUpdateRecord = BulkUpdateInput["records"][number];
+
+function buildCreatePayload(rec: RecordEntry): Record<string, unknown> {
+  const payload: Record<string, unknown> = {
+    type: rec.type,
+    name: rec.name,
+    content: rec.content,
+    ttl: rec.ttl,
+  };
+  if (rec.proxied !== undefined) payload.proxied = rec.proxied;
+  if (rec.priority !== undefined) payload.priority = rec.priority;
+  if (rec.comment) payload.comment = rec.comment;
+  if (rec.tags) payload.tags = rec.tags;
+  if (rec.data) payload.data = rec.data;
+  return payload;
+}
+
+function buildUpdatePayload(rec: BulkUpdateRecord): Record<string, unknown> {
+  const { record_id: _recordId, ...fields } = rec;
+  return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+}
+
+/** Wraps per-record previews with counts for a bulk dry run. */
+function summarizePreviews(operation: string, previews: RecordPreview[]): Record<string, unknown> {
+  const withConflicts = previews.filter((p) => p.conflicts.length > 0).length;
+  return {
+    dry_run: true,
+    operation,
+    total: previews.length,
+    conflicts: withConflicts,
+    results: previews.map((p, index) => ({ index, ...p })),
+  };
+}
+
+/**
+ * Checks each patch against the live record it changes, the way
+ * cf_dns_update_record does. Patches of unknown records are left to
+ * Cloudflare, which rejects the batch.
+ */
+function patchIssues(live: Record<string, unknown>[], patches: NonNullable<BatchRequest["patches"]>): string[] {
+  const byId = new Map(live.map((r) => [String(r.id), r]));
+  return patches.flatMap(({ id, ...patch }) => {
+    const before = byId.get(id);
+    return before ? validatePatch(before, patch).map((i) => `  ${id} ${i.field}: ${i.message}`) : [];
+  });
+}
+
+/** Error response for updates that failed the type checks — nothing was sent. */
+function rejected(issues: string[]) {
+  return {
+    content: [{ type: "text" as const, text: `Update rejected — nothing was sent:\n${issues.join("\n")}` }],
+    isError: true as const,
+  };
+}
+
+/**
+ * Error response for a failed bulk or batch call. Only a batch Cloudflare
+ * refused is known to have applied nothing; other failures get no such note.
+ */
+function batchError(error: unknown) {
+  const note =
+    error instanceof BatchRejectedError
+      ? "\nNo changes were applied — the batch is atomic. Fix the failing record and retry the whole batch."
+      : "";
+  return {
+    content: [{ type: "text" as const, text: `${handleApiError(error)}${note}` }],
+    isError: true as const,
+  };
+}
 
 export function registerBulkTools(server: McpServer): void {
   // ─── cf_dns_bulk_create ──────────────────────────────────────
@@ -18,8 +109,9 @@ export function registerBulkTools(server: McpServer): void {
         `Create multiple DNS records in a single operation (max 100 per call).\n\n` +
         `Each record in the array needs: type, name, content.\n` +
         `Optional per record: ttl, proxied, priority, comment, tags, data.\n\n` +
-        `Records are created sequentially. If one fails, previously created records persist.\n\n` +
-        `Returns: { created: N, failed: N, results: [...] }`,
+        `Atomic: records are created in one batch request. If any record fails, none are created.\n` +
+        `dry_run=true: preview every record and its conflicts (including conflicts within the batch) without creating anything.\n\n` +
+        `Returns: { created: N, total: N, records: [...] }`,
       inputSchema: BulkCreateSchema,
       annotations: {
         readOnlyHint: false,
@@ -28,59 +120,31 @@ export function registerBulkTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async (params: BulkCreateInput) => {
+    async (params: BulkCreateInput, extra) => {
+      const posts = params.records.map(buildCreatePayload);
       try {
-        const client = getClient();
-        const results: Array<{
-          index: number;
-          success: boolean;
-          record?: unknown;
-          error?: string;
-        }> = [];
-
-        let created = 0;
-        let failed = 0;
-
-        for (let i = 0; i < params.records.length; i++) {
-          const rec = params.records[i];
-          try {
-            const payload: Record<string, unknown> = {
-              type: rec.type,
-              name: rec.name,
-              content: rec.content,
-              ttl: rec.ttl,
-            };
-            if (rec.proxied !== undefined) payload.proxied = rec.proxied;
-            if (rec.priority !== undefined) payload.priority = rec.priority;
-            if (rec.comment) payload.comment = rec.comment;
-            if (rec.tags) payload.tags = rec.tags;
-            if (rec.data) payload.data = rec.data;
-
-            const record = await client.dns.records.create({
-              zone_id: params.zone_id,
-              ...payload,
-            } as Parameters<typeof client.dns.records.create>[0]);
-
-            const formatted = formatRecord(record as unknown as Record<string, unknown>, true);
-            results.push({ index: i, success: true, record: formatted });
-            created++;
-          } catch (error) {
-            results.push({ index: i, success: false, error: handleApiError(error) });
-            failed++;
-          }
+        const zoneId = await resolveZoneId(params);
+        if (params.dry_run) {
+          const previews = await previewBulkCreate(zoneId, posts);
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(summarizePreviews("bulk_create", previews), null, 2),
+            }],
+          };
         }
 
+        const result = await runJournaledBatch(writeContext("cf_dns_bulk_create", extra.authInfo), zoneId, { posts });
+        const records = formatRecords(result.posts, true);
+
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify({ created, failed, total: params.records.length, results }, null, 2),
+            text: JSON.stringify({ created: records.length, total: params.records.length, records }, null, 2),
           }],
         };
       } catch (error) {
-        return {
-          content: [{ type: "text" as const, text: handleApiError(error) }],
-          isError: true,
-        };
+        return batchError(error);
       }
     }
   );
@@ -92,9 +156,10 @@ export function registerBulkTools(server: McpServer): void {
       title: "Bulk Update DNS Records",
       description:
         `Update multiple DNS records in a single operation (max 100 per call).\n\n` +
-        `Each record needs: record_id + any fields to change (content, name, ttl, proxied, comment, tags, data).\n\n` +
-        `Records are updated sequentially. If one fails, previously updated records persist.\n\n` +
-        `Returns: { updated: N, failed: N, results: [...] }`,
+        `Each record needs: record_id + any fields to change (content, name, ttl, proxied, priority, comment, tags, data).\n\n` +
+        `Atomic: updates are applied in one batch request. If any update fails, none are applied.\n` +
+        `dry_run=true: return before/after diffs and conflicts for every record without updating.\n\n` +
+        `Returns: { updated: N, total: N, records: [...] }`,
       inputSchema: BulkUpdateSchema,
       annotations: {
         readOnlyHint: false,
@@ -103,52 +168,251 @@ export function registerBulkTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async (params: BulkUpdateInput) => {
+    async (params: BulkUpdateInput, extra) => {
       try {
-        const client = getClient();
-        const results: Array<{
-          index: number;
-          record_id: string;
-          success: boolean;
-          record?: unknown;
-          error?: string;
-        }> = [];
-
-        let updated = 0;
-        let failed = 0;
-
-        for (let i = 0; i < params.records.length; i++) {
-          const rec = params.records[i];
-          try {
-            const payload: Record<string, unknown> = {};
-            if (rec.content !== undefined) payload.content = rec.content;
-            if (rec.name !== undefined) payload.name = rec.name;
-            if (rec.ttl !== undefined) payload.ttl = rec.ttl;
-            if (rec.proxied !== undefined) payload.proxied = rec.proxied;
-            if (rec.comment !== undefined) payload.comment = rec.comment;
-            if (rec.tags !== undefined) payload.tags = rec.tags;
-            if (rec.data !== undefined) payload.data = rec.data;
-
-            const record = await client.dns.records.edit(rec.record_id, {
-              zone_id: params.zone_id,
-              ...payload,
-            } as Parameters<typeof client.dns.records.edit>[1]);
-
-            const formatted = formatRecord(record as unknown as Record<string, unknown>, true);
-            results.push({ index: i, record_id: rec.record_id, success: true, record: formatted });
-            updated++;
-          } catch (error) {
-            results.push({ index: i, record_id: rec.record_id, success: false, error: handleApiError(error) });
-            failed++;
-          }
+        const zoneId = await resolveZoneId(params);
+        const patches = params.records.map((rec) => ({ ...buildUpdatePayload(rec), id: rec.record_id }));
+        const live = await fetchAllRecords(zoneId);
+        const issues = patchIssues(live, patches);
+        if (issues.length > 0) return rejected(issues);
+
+        if (params.dry_run) {
+          const previews = await previewBulkUpdate(
+            zoneId,
+            params.records.map((rec) => ({ record_id: rec.record_id, patch: buildUpdatePayload(rec) }))
+          );
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify(summarizePreviews("bulk_update", previews), null, 2),
+            }],
+          };
         }
 
+        const result = await runJournaledBatch(writeContext("cf_dns_bulk_update", extra.authInfo), zoneId, { patches }, live);
+        const records = formatRecords(result.patches, true);
+
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify({ updated, failed, total: params.records.length, results }, null, 2),
+            text: JSON.stringify({ updated: records.length, total: params.records.length, records }, null, 2),
           }],
         };
+      } catch (error) {
+        return batchError(error);
+      }
+    }
+  );
+
+  // ─── cf_dns_batch ────────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_batch",
+    {
+      title: "Batch DNS Record Changes",
+      description:
+        `Apply a mix of deletes, patches, puts and posts to a zone in one atomic request (max 100 of each).\n\n` +
+        `  • deletes → record IDs to delete\n` +
+        `  • patches → record_id + fields to change (partial update)\n` +
+        `  • puts    → record_id + complete record (full overwrite)\n` +
+        `  • posts   → new records (same shape as cf_dns_bulk_create)\n\n` +
+        `Cloudflare always executes deletes, then patches, then puts, then posts — so a record can be ` +
+        `deleted and re-created with a different type in the same batch. If any operation fails, none are applied.\n` +
+        `dry_run=true: preview every operation and its conflicts without writing.\n\n` +
+        `Batches with deletes, patches or puts are two-step:\n` +
+        `  1. Call without confirmation_token → returns the preview and a confirmation_token. Nothing is written.\n` +
+        `  2. Call again with the same batch plus confirmation_token=<token>.\n` +
+        `     The token is single-use, expires after 5 minutes, and is refused if any operation differs from the preview ` +
+        `or a record being deleted, patched or overwritten changed.\n\n` +
+        `Returns: preview { dry_run, total, conflicts, deletes, patches, puts, posts, confirmation_token? } or ` +
+        `{ deleted, patched, put, created, records: { patches, puts, posts } }`,
+      inputSchema: BatchSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: BatchInput, extra) => {
+      // Checked here rather than in the schema, which must stay a plain object to be listed
+      const lists = [params.deletes, params.patches, params.puts, params.posts];
+      if (lists.every((list) => !list?.length)) {
+        return {
+          content: [{ type: "text" as const, text: "Provide at least one operation in deletes, patches, puts or posts." }],
+          isError: true,
+        };
+      }
+
+      const ops: BatchRequest = {
+        deletes: params.deletes,
+        patches: params.patches?.map((rec) => ({ ...buildUpdatePayload(rec), id: rec.record_id })),
+        puts: params.puts?.map(({ record_id, ...rec }) => ({ ...buildCreatePayload(rec), id: record_id })),
+        posts: params.posts?.map(buildCreatePayload),
+      };
+
+      try {
+        const tool = "cf_dns_batch";
+        const zoneId = await resolveZoneId(params);
+        // Deletes, patches and puts change existing records, so they need a confirmed preview
+        const atRiskIds = new Set([
+          ...(ops.deletes ?? []),
+          ...(ops.patches ?? []).map((p) => p.id),
+          ...(ops.puts ?? []).map((p) => p.id),
+        ]);
+        const live = atRiskIds.size > 0 ? await fetchAllRecords(zoneId) : [];
+        const issues = patchIssues(live, ops.patches ?? []);
+        if (issues.length > 0) return rejected(issues);
+        const atRisk = live.filter((r) => atRiskIds.has(String(r.id)));
+        const scope = { ops_hash: batchHash(ops) };
+
+        if (params.dry_run || (atRiskIds.size > 0 && !params.confirmation_token)) {
+          const preview = await previewBatch(zoneId, ops);
+          const all = [...preview.deletes, ...preview.patches, ...preview.puts, ...preview.posts];
+          const confirmation = atRiskIds.size > 0 ? await issueConfirmation(tool, zoneId, atRisk, scope) : null;
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                dry_run: true,
+                operation: "batch",
+                total: all.length,
+                conflicts: all.filter((p) => p.conflicts.length > 0).length,
+                ...preview,
+                ...(confirmation
+                  ? {
+                      confirmation_token: confirmation.token,
+                      expires_at: new Date(confirmation.expires_at).toISOString(),
+                      next_step: `To apply, call again with the same batch plus confirmation_token="${confirmation.token}".`,
+                    }
+                  : {}),
+              }, null, 2),
+            }],
+          };
+        }
+
+        if (atRiskIds.size > 0) {
+          assertUnchanged(await redeemConfirmation(params.confirmation_token!, tool, zoneId, scope), atRisk);
+        }
+        const result = await runJournaledBatch(writeContext(tool, extra.authInfo), zoneId, ops, live);
+        const output = {
+          deleted: result.deletes.length,
+          patched: result.patches.length,
+          put: result.puts.length,
+          created: result.posts.length,
+          records: {
+            patches: formatRecords(result.patches, true),
+            puts: formatRecords(result.puts, true),
+            posts: formatRecords(result.posts, true),
+          },
+        };
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }],
+        };
+      } catch (error) {
+        return batchError(error);
+      }
+    }
+  );
+
+  // ─── cf_dns_bulk_delete ──────────────────────────────────────
+  server.registerTool(
+    "cf_dns_bulk_delete",
+    {
+      title: "Bulk Delete DNS Records",
+      description:
+        `Delete many DNS records selected by record_ids or by filters ` +
+        `(filter_type, filter_name, filter_content, filter_proxied, filter_comment, filter_tag — same as cf_dns_list_records).\n\n` +
+        `Two steps:\n` +
+        `  1. Call without confirmation_token → returns the matched records and a confirmation_token. Nothing is deleted.\n` +
+        `  2. Call again with the same selection plus confirmation_token=<token>.\n` +
+        `     The selection is re-evaluated; if any matched record was added, removed or edited, the delete is refused.\n` +
+        `     The token is single-use and expires after 5 minutes.\n\n` +
+        `Records are deleted in atomic batches of ${BATCH_CHUNK_SIZE}.\n\n` +
+        `Returns: preview { matched, records[], confirmation_token } or { deleted, batches }`,
+      inputSchema: BulkDeleteSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: BulkDeleteInput, extra) => {
+      // Checked here rather than in the schema, which must stay a plain object to be listed
+      const hasFilter = Object.entries(params).some(([k, v]) => k.startsWith("filter_") && v !== undefined);
+      if (Boolean(params.record_ids) === hasFilter) {
+        return {
+          content: [{ type: "text" as const, text: "Provide either record_ids or at least one filter_* parameter (not both)." }],
+          isError: true,
+        };
+      }
+
+      try {
+        const zoneId = await resolveZoneId(params);
+        // Resolve the selection against the live zone
+        let matched: Record<string, unknown>[];
+        let missing: string[] = [];
+        if (params.record_ids) {
+          const wanted = new Set(params.record_ids);
+          matched = (await fetchAllRecords(zoneId)).filter((r) => wanted.has(String(r.id)));
+          const found = new Set(matched.map((r) => String(r.id)));
+          missing = params.record_ids.filter((id) => !found.has(id));
+        } else {
+          matched = await fetchFilteredRecords(zoneId, params);
+        }
+        const changes = matched.map((r): PolicyChange => ({ action: "delete", before: r, after: null }));
+
+        const tool = "cf_dns_bulk_delete";
+
+        if (!params.confirmation_token) {
+          const refused = await previewPolicies(zoneId, changes);
+          const confirmation = matched.length > 0 ? await issueConfirmation(tool, zoneId, matched) : null;
+          const output = {
+            matched: matched.length,
+            ...(missing.length > 0 ? { not_found: missing } : {}),
+            ...(refused.length > 0 ? { policy_conflicts: refused } : {}),
+            records: matched.map((r) => ({ id: r.id, type: r.type, name: r.name, content: r.content })),
+            ...(confirmation
+              ? { confirmation_token: confirmation.token, expires_at: new Date(confirmation.expires_at).toISOString() }
+              : {}),
+            next_step: confirmation
+              ? `To delete, call again with the same selection plus confirmation_token="${confirmation.token}".`
+              : "No records matched.",
+          };
+          return {
+            content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+          };
+        }
+
+        assertUnchanged(await redeemConfirmation(params.confirmation_token, tool, zoneId), matched);
+
+        // Check the whole selection up front so a refusal cannot strike between chunks
+        await enforcePolicies(zoneId, changes);
+        const ctx = writeContext(tool, extra.authInfo);
+        const ids = matched.map((r) => String(r.id));
+        let deleted = 0;
+        let batches = 0;
+        for (let i = 0; i < ids.length; i += BATCH_CHUNK_SIZE) {
+          try {
+            const result = await runJournaledBatch(ctx, zoneId, { deletes: ids.slice(i, i + BATCH_CHUNK_SIZE) }, matched);
+            deleted += result.deletes.length;
+            batches++;
+          } catch (error) {
+            return {
+              content: [{
+                type: "text" as const,
+                text:
+                  `${handleApiError(error)}\nDeleted ${deleted} of ${ids.length} records in ${batches} batch(es) before the failure; ` +
+                  `the failing batch was not applied. Preview again to see what remains.`,
+              }],
+              isError: true,
+            };
+          }
+        }
+
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ deleted, batches }, null, 2) }],
+        };
       } catch (error) {
         return {
           content: [{ type: "text" as const, text: handleApiError(error) }],
@@ -0,0 +1,162 @@
+/**
+ * Zonefile import tool: cf_dns_import_records
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchAllRecords, getZoneName, resolveZoneId } from "../services/cloudflare.js";
+import { runJournaledBatch, writeContext } from "../services/journal.js";
+import { batchChanges, previewPolicies } from "../services/policy.js";
+import { assertUnchanged, issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { formatRecords } from "../formatters/record.js";
+import { handleApiError } from "../utils/errors.js";
+import { parseZonefile } from "../utils/zonefile.js";
+import type { ParsedRecord, ZonefileIssue } from "../utils/zonefile.js";
+import { recordKey } from "../utils/records.js";
+import { validateRecordFields } from "../utils/validation.js";
+import { ImportRecordsSchema } from "../schemas/records.js";
+import type { ImportRecordsInput } from "../schemas/records.js";
+
+/** Concise preview line for a parsed record. */
+function previewRecord(rec: ParsedRecord): Record<string, unknown> {
+  return {
+    line: rec.line,
+    type: rec.type,
+    name: rec.name,
+    content: rec.content,
+    ttl: rec.ttl === 1 ? "auto" : rec.ttl,
+    ...(rec.priority !== undefined ? { priority: rec.priority } : {}),
+  };
+}
+
+export function registerImportTools(server: McpServer): void {
+  // ─── cf_dns_import_records ───────────────────────────────────
+  server.registerTool(
+    "cf_dns_import_records",
+    {
+      title: "Import DNS Records (BIND format)",
+      description:
+        `Import records from BIND zonefile text — the counterpart of cf_dns_export_records.\n\n` +
+        `The zonefile is parsed locally and compared with the zone's live records:\n` +
+        `  • to_create → new records that would be created\n` +
+        `  • skipped   → duplicates (already in the zone or repeated in the file), SOA and apex NS\n` +
+        `  • rejected  → malformed or unsupported entries, with line numbers and reasons\n\n` +
+        `Two-phase:\n` +
+        `  1. Call with apply=false (default) → returns the preview and a confirmation_token. Nothing is written.\n` +
+        `  2. Call again with the same zonefile, apply=true and confirmation_token=<token> → creates the 'to_create' records.\n` +
+        `     The token is single-use, expires after 5 minutes, and is refused if 'to_create' would differ from the preview.\n` +
+        `The records are created atomically in one batch request: if any record fails, none are created.\n\n` +
+        `Returns: { summary, to_create[], skipped[], rejected[], confirmation_token } or, when applied, { created, skipped, rejected, records[] }`,
+      inputSchema: ImportRecordsSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: ImportRecordsInput, extra) => {
+      const tool = "cf_dns_import_records";
+      if (params.apply && !params.confirmation_token) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "apply=true needs the confirmation_token from a preview. Call with apply=false first.",
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        const zoneId = await resolveZoneId(params);
+        const origin = params.origin ?? (await getZoneName(zoneId));
+        const parsed = parseZonefile(params.zonefile, origin);
+        const rejected: ZonefileIssue[] = [...parsed.errors];
+
+        // Classify parsed records against the live zone and each other
+        const existing = new Set((await fetchAllRecords(zoneId)).map(recordKey));
+        const seen = new Set<string>();
+        const toCreate: ParsedRecord[] = [];
+        const skipped: Array<Record<string, unknown>> = parsed.skipped.map((s) => ({ ...s }));
+
+        for (const rec of parsed.records) {
+          const key = recordKey(rec);
+          const issues = validateRecordFields(rec);
+          if (issues.length > 0) {
+            const text = `${rec.name} ${rec.ttl} ${rec.type} ${rec.content}`;
+            rejected.push({ line: rec.line, text, reason: issues.map((i) => i.message).join(" ") });
+          } else if (existing.has(key)) {
+            skipped.push({ ...previewRecord(rec), reason: "Already exists in zone." });
+          } else if (seen.has(key)) {
+            skipped.push({ ...previewRecord(rec), reason: "Duplicate within zonefile." });
+          } else {
+            seen.add(key);
+            toCreate.push(rec);
+          }
+        }
+
+        const posts = toCreate.map((rec) => {
+          const payload: Record<string, unknown> = {
+            type: rec.type,
+            name: rec.name,
+            ttl: rec.ttl,
+          };
+          if (rec.data) payload.data = rec.data;
+          else payload.content = rec.content;
+          if (rec.priority !== undefined) payload.priority = rec.priority;
+          if (["A", "AAAA", "CNAME"].includes(rec.type)) payload.proxied = params.proxied;
+          return payload;
+        });
+        // The token covers exactly these records, keyed by what makes each one unique
+        const toConfirm = posts.map((payload) => ({ id: recordKey(payload), ...payload }));
+
+        if (!params.apply) {
+          const refused = await previewPolicies(zoneId, batchChanges({ posts }, new Map()));
+          const confirmation = posts.length > 0 ? await issueConfirmation(tool, zoneId, toConfirm) : null;
+          const output = {
+            summary: {
+              origin,
+              parsed: parsed.records.length,
+              to_create: toCreate.length,
+              skipped: skipped.length,
+              rejected: rejected.length,
+            },
+            to_create: toCreate.map(previewRecord),
+            skipped,
+            rejected,
+            ...(refused.length > 0 ? { policy_conflicts: refused } : {}),
+            ...(confirmation
+              ? { confirmation_token: confirmation.token, expires_at: new Date(confirmation.expires_at).toISOString() }
+              : {}),
+            next_step: confirmation
+              ? `To create the 'to_create' records, call again with the same zonefile, apply=true and confirmation_token="${confirmation.token}".`
+              : "Nothing to create.",
+          };
+          return {
+            content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+          };
+        }
+
+        assertUnchanged(await redeemConfirmation(params.confirmation_token!, tool, zoneId), toConfirm);
+        const ctx = writeContext(tool, extra.authInfo);
+        const result = posts.length > 0 ? (await runJournaledBatch(ctx, zoneId, { posts })).posts : [];
+
+        const output = {
+          created: result.length,
+          skipped: skipped.length,
+          rejected: rejected.length,
+          records: formatRecords(result, true),
+        };
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
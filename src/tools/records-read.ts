@@ -2,9 +2,22 @@
  * DNS record read tools: cf_dns_list_records, cf_dns_get_record, cf_dns_export_records
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getClient } from "../services/cloudflare.js";
+import {
+  getClient,
+  buildRecordFilterQuery,
+  fetchAllRecords,
+  fetchFilteredRecords,
+  fetchRecordsPage,
+  getZoneName,
+  resolveZoneId,
+} from "../services/cloudflare.js";
+import { cached } from "../services/cache.js";
+import { toSnapshotRecord } from "../services/snapshots.js";
+import { chunkIfNeeded, storeForContinuation } from "../services/continuations.js";
 import { formatRecord, formatRecords, buildRecordSummary } from "../formatters/record.js";
-import { buildPaginationMeta, truncateIfNeeded, randomSample } from "../utils/pagination.js";
+import { renderOutput } from "../formatters/output.js";
+import { fitOutput } from "../formatters/adaptive.js";
+import { buildPaginationMeta, randomSample } from "../utils/pagination.js";
 import { handleApiError } from "../utils/errors.js";
 import {
   ListRecordsSchema,
@@ -28,7 +41,8 @@ export function registerRecordReadTools(server: McpServer): void {
         `Modes:\n` +
         `  • summary_only=true → returns only count + type distribution (most token-efficient)\n` +
         `  • random_sample=true → returns N random records for quick audits\n` +
-        `  • default → paginated concise records\n\n` +
+        `  • default → one page of concise records, fetched with a single API request. ` +
+        `pagination.total is the server's count of all matches, so any page of a large zone can be reached directly.\n\n` +
         `Filters: filter_type, filter_name, filter_content, filter_proxied, filter_comment, filter_tag\n\n` +
         `Returns: { pagination, summary, records[] } — fields present depend on mode.`,
       inputSchema: ListRecordsSchema,
@@ -41,66 +55,53 @@ export function registerRecordReadTools(server: McpServer): void {
     },
     async (params: ListRecordsInput) => {
       try {
-        const client = getClient();
+        const zoneId = await resolveZoneId(params);
         const concise = params.include_details ? false : params.concise;
 
-        // Build Cloudflare API query params
-        const queryParams: Record<string, unknown> = {
-          page: params.page,
-          per_page: params.per_page,
-        };
-        if (params.filter_type) queryParams.type = params.filter_type;
-        if (params.filter_name) queryParams["name.contains"] = params.filter_name;
-        if (params.filter_content) queryParams["content.contains"] = params.filter_content;
-        if (params.filter_proxied !== undefined) queryParams.proxied = params.filter_proxied;
-        if (params.filter_comment) queryParams["comment.contains"] = params.filter_comment;
-        if (params.filter_tag) queryParams.tag = params.filter_tag;
-        if (params.order) queryParams.order = params.order;
-
-        // Fetch records — use the SDK's page-level API for controlled pagination
-        const page = await client.dns.records.list({
-          zone_id: params.zone_id,
-          ...queryParams,
-        } as Parameters<typeof client.dns.records.list>[0]);
-
-        const records: Record<string, unknown>[] = [];
-        for await (const record of page) {
-          records.push(record as unknown as Record<string, unknown>);
-          // Safety: stop collecting if we've gathered way more than needed
-          if (records.length >= params.per_page * 10 && !params.summary_only && !params.random_sample) break;
-        }
-
-        const total = records.length;
-
         // ── Summary-only mode (most token-efficient) ──
         if (params.summary_only) {
+          const records = await cached(zoneId, `filtered:${JSON.stringify(buildRecordFilterQuery(params))}`, () =>
+            fetchFilteredRecords(zoneId, params)
+          );
           const summary = buildRecordSummary(records);
           return {
-            content: [{ type: "text" as const, text: JSON.stringify({ summary }, null, 2) }],
+            content: [{ type: "text" as const, text: renderOutput({ summary }, params.format) }],
           };
         }
 
         // ── Random sample mode ──
         if (params.random_sample) {
+          const records = await cached(zoneId, `filtered:${JSON.stringify(buildRecordFilterQuery(params))}`, () =>
+            fetchFilteredRecords(zoneId, params)
+          );
           const sampled = randomSample(records, params.sample_size);
           const formatted = formatRecords(sampled, concise);
           const output = {
-            sample: { total_in_zone: total, sample_size: formatted.length },
+            sample: { total_in_zone: records.length, sample_size: formatted.length },
             records: formatted,
           };
-          return {
-            content: [{ type: "text" as const, text: truncateIfNeeded(JSON.stringify(output, null, 2)) }],
-          };
+          const text = fitOutput(output, params.format, params.max_output_chars, {
+            rowsKey: "records",
+            rrsets: true,
+            summarize: buildRecordSummary,
+            cursorFor: storeForContinuation,
+          });
+          return { content: [{ type: "text" as const, text: chunkIfNeeded(text) }] };
         }
 
-        // ── Paginated mode (default) ──
-        const start = (params.page - 1) * params.per_page;
-        const paged = records.slice(start, start + params.per_page);
-        const formatted = formatRecords(paged, concise);
+        // ── Paginated mode (default) — one request for the requested page ──
+        const query = buildRecordFilterQuery(params);
+        if (params.order) query.order = params.order;
+        const { items, total } = await cached(
+          zoneId,
+          `page:${JSON.stringify(query)}:${params.page}:${params.per_page}`,
+          () => fetchRecordsPage(zoneId, query, params.page, params.per_page)
+        );
+        const formatted = formatRecords(items, concise);
         const pagination = buildPaginationMeta(total, formatted, params.page, params.per_page);
 
-        // Include summary stats alongside records for zones with many records
-        const summary = total > 20 ? buildRecordSummary(records) : undefined;
+        // Include summary stats when the page already holds every match of a larger set
+        const summary = total > 20 && items.length === total ? buildRecordSummary(items) : undefined;
 
         const output = {
           pagination,
@@ -108,7 +109,14 @@ export function registerRecordReadTools(server: McpServer): void {
           records: formatted,
         };
 
-        const text = truncateIfNeeded(JSON.stringify(output, null, 2));
+        const text = chunkIfNeeded(
+          fitOutput(output, params.format, params.max_output_chars, {
+            rowsKey: "records",
+            rrsets: true,
+            summarize: buildRecordSummary,
+            cursorFor: storeForContinuation,
+          })
+        );
         return { content: [{ type: "text" as const, text }] };
       } catch (error) {
         return {
@@ -137,16 +145,17 @@ export function registerRecordReadTools(server: McpServer): void {
     },
     async (params: GetRecordInput) => {
       try {
+        const zoneId = await resolveZoneId(params);
         const client = getClient();
         const concise = params.include_details ? false : params.concise;
 
-        const record = await client.dns.records.get(params.record_id, {
-          zone_id: params.zone_id,
-        });
+        const record = await cached(zoneId, `record:${params.record_id}`, () =>
+          client.dns.records.get(params.record_id, { zone_id: zoneId })
+        );
 
         const formatted = formatRecord(record as unknown as Record<string, unknown>, concise);
         return {
-          content: [{ type: "text" as const, text: JSON.stringify({ record: formatted }, null, 2) }],
+          content: [{ type: "text" as const, text: renderOutput({ record: formatted }, params.format) }],
         };
       } catch (error) {
         return {
@@ -161,11 +170,12 @@ export function registerRecordReadTools(server: McpServer): void {
   server.registerTool(
     "cf_dns_export_records",
     {
-      title: "Export DNS Records (BIND format)",
+      title: "Export DNS Records (BIND or JSON)",
       description:
-        `Export all DNS records for a zone in BIND zonefile format. ` +
-        `Useful for backups, migrations, and auditing.\n\n` +
-        `Returns: raw BIND zonefile text.`,
+        `Export all DNS records for a zone. Useful for backups, migrations, and auditing.\n\n` +
+        `  • format="bind" (default) → BIND zonefile text\n` +
+        `  • format="json" → compact JSON that keeps comments, tags and structured data\n\n` +
+        `Returns: raw BIND zonefile text, or { zone_id, zone_name, record_count, records[] }.`,
       inputSchema: ExportRecordsSchema,
       annotations: {
         readOnlyHint: true,
@@ -176,11 +186,26 @@ export function registerRecordReadTools(server: McpServer): void {
     },
     async (params: ExportRecordsInput) => {
       try {
+        const zoneId = await resolveZoneId(params);
+
+        if (params.format === "json") {
+          const records = await fetchAllRecords(zoneId);
+          const output = {
+            zone_id: zoneId,
+            zone_name: await getZoneName(zoneId),
+            record_count: records.length,
+            records: records.map(toSnapshotRecord),
+          };
+          return {
+            content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output)) }],
+          };
+        }
+
         const client = getClient();
-        const result = await client.dns.records.export({ zone_id: params.zone_id });
+        const result = await client.dns.records.export({ zone_id: zoneId });
         const text = typeof result === "string" ? result : JSON.stringify(result);
         return {
-          content: [{ type: "text" as const, text: truncateIfNeeded(text) }],
+          content: [{ type: "text" as const, text: chunkIfNeeded(text) }],
         };
       } catch (error) {
         return {
@@ -2,9 +2,15 @@
  * DNS record write tools: cf_dns_create_record, cf_dns_update_record, cf_dns_delete_record
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getClient } from "../services/cloudflare.js";
+import { getClient, resolveZoneId } from "../services/cloudflare.js";
+import { invalidateZone } from "../services/cache.js";
+import { previewCreate, previewUpdate, previewDelete } from "../services/dry-run.js";
+import { recordChanges, writeContext } from "../services/journal.js";
+import { enforcePolicies } from "../services/policy.js";
+import { assertUnchanged, issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
 import { formatRecord } from "../formatters/record.js";
 import { handleApiError } from "../utils/errors.js";
+import { validatePatch, validateRecordFields } from "../utils/validation.js";
 import {
   CreateRecordSchema,
   UpdateRecordSchema,
@@ -25,9 +31,10 @@ export function registerRecordWriteTools(server: McpServer): void {
       description:
         `Create a new DNS record in a zone. Supports all record types: ` +
         `A, AAAA, CNAME, MX, TXT, SRV, CAA, NS, PTR, and more.\n\n` +
-        `Required: zone_id, type, name, content.\n` +
+        `Required: zone_id or zone_name, type, name, content.\n` +
         `Optional: ttl (1=auto), proxied (A/AAAA/CNAME only), priority (MX), comment, tags.\n` +
-        `For complex types (SRV, CAA, CERT), use the 'data' field with structured JSON.\n\n` +
+        `For complex types (SRV, CAA, CERT), use the 'data' field with structured JSON.\n` +
+        `dry_run=true: preview the record and conflicts (e.g. an existing CNAME at the name) without creating it.\n\n` +
         `Returns: the created record in concise format.`,
       inputSchema: CreateRecordSchema,
       annotations: {
@@ -37,8 +44,9 @@ export function registerRecordWriteTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async (params: CreateRecordInput) => {
+    async (params: CreateRecordInput, extra) => {
       try {
+        const zoneId = await resolveZoneId(params);
         const client = getClient();
 
         // Build the create payload
@@ -55,10 +63,37 @@ export function registerRecordWriteTools(server: McpServer): void {
         if (params.tags) payload.tags = params.tags;
         if (params.data) payload.data = params.data;
 
+        const issues = validateRecordFields(params);
+        if (issues.length > 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Create rejected — nothing was sent:\n${issues.map((i) => `  ${i.field}: ${i.message}`).join("\n")}`,
+            }],
+            isError: true,
+          };
+        }
+
+        if (params.dry_run) {
+          const preview = await previewCreate(zoneId, payload);
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({ dry_run: true, operation: "create", ...preview }, null, 2),
+            }],
+          };
+        }
+
+        await enforcePolicies(zoneId, [{ action: "create", before: null, after: payload }]);
         const record = await client.dns.records.create({
-          zone_id: params.zone_id,
+          zone_id: zoneId,
           ...payload,
         } as Parameters<typeof client.dns.records.create>[0]);
+        await invalidateZone(zoneId);
+
+        await recordChanges(writeContext("cf_dns_create_record", extra.authInfo), zoneId, [
+          { action: "create", before: null, after: record as unknown as Record<string, unknown> },
+        ]);
 
         const formatted = formatRecord(record as unknown as Record<string, unknown>, true);
         return {
@@ -84,8 +119,10 @@ export function registerRecordWriteTools(server: McpServer): void {
       description:
         `Update an existing DNS record (partial update / PATCH). ` +
         `Only the fields you provide will be changed; others remain untouched.\n\n` +
-        `Required: zone_id, record_id.\n` +
-        `Updatable: content, name, ttl, proxied, comment, tags, data.\n\n` +
+        `Required: zone_id or zone_name, record_id.\n` +
+        `Updatable: content, name, ttl, proxied, priority, comment, tags, data.\n` +
+        `The new values are checked against the record's type (e.g. IPv4 for A) before anything is written.\n` +
+        `dry_run=true: return the before/after diff and conflicts without updating.\n\n` +
         `Returns: the updated record in concise format.`,
       inputSchema: UpdateRecordSchema,
       annotations: {
@@ -95,8 +132,9 @@ export function registerRecordWriteTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async (params: UpdateRecordInput) => {
+    async (params: UpdateRecordInput, extra) => {
       try {
+        const zoneId = await resolveZoneId(params);
         const client = getClient();
 
         // Build patch payload — only include fields that were provided
@@ -105,6 +143,7 @@ export function registerRecordWriteTools(server: McpServer): void {
         if (params.name !== undefined) payload.name = params.name;
         if (params.ttl !== undefined) payload.ttl = params.ttl;
         if (params.proxied !== undefined) payload.proxied = params.proxied;
+        if (params.priority !== undefined) payload.priority = params.priority;
         if (params.comment !== undefined) payload.comment = params.comment;
         if (params.tags !== undefined) payload.tags = params.tags;
         if (params.data !== undefined) payload.data = params.data;
@@ -113,16 +152,47 @@ export function registerRecordWriteTools(server: McpServer): void {
           return {
             content: [{
               type: "text" as const,
-              text: "No fields to update. Provide at least one of: content, name, ttl, proxied, comment, tags, data.",
+              text: "No fields to update. Provide at least one of: content, name, ttl, proxied, priority, comment, tags, data.",
+            }],
+            isError: true,
+          };
+        }
+
+        // Check the changed fields against the record's type
+        const before = (await client.dns.records.get(params.record_id, { zone_id: zoneId })) as unknown as Record<string, unknown>;
+        const issues = validatePatch(before, payload);
+        if (issues.length > 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Update rejected — nothing was sent:\n${issues.map((i) => `  ${i.field}: ${i.message}`).join("\n")}`,
             }],
             isError: true,
           };
         }
 
+        if (params.dry_run) {
+          const preview = await previewUpdate(zoneId, params.record_id, payload);
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({ dry_run: true, operation: "update", ...preview }, null, 2),
+            }],
+          };
+        }
+
+        await enforcePolicies(zoneId, [{ action: "update", before, after: { ...before, ...payload } }]);
         const record = await client.dns.records.edit(params.record_id, {
-          zone_id: params.zone_id,
+          zone_id: zoneId,
           ...payload,
         } as Parameters<typeof client.dns.records.edit>[1]);
+        await invalidateZone(zoneId);
+
+        await recordChanges(writeContext("cf_dns_update_record", extra.authInfo), zoneId, [{
+          action: "update",
+          before,
+          after: record as unknown as Record<string, unknown>,
+        }]);
 
         const formatted = formatRecord(record as unknown as Record<string, unknown>, true);
         return {
@@ -146,11 +216,15 @@ export function registerRecordWriteTools(server: McpServer): void {
     {
       title: "Delete DNS Record",
       description:
-        `Permanently delete a DNS record. THIS IS IRREVERSIBLE.\n\n` +
-        `Safety: You MUST set confirm=true to proceed. The tool will refuse ` +
-        `without explicit confirmation.\n\n` +
+        `Delete a DNS record. The deletion is journaled: cf_dns_undo can re-create the record ` +
+        `(with a new ID) from its recorded state.\n\n` +
+        `Two steps:\n` +
+        `  1. Call without confirmation_token → returns the record that would be deleted and a confirmation_token. Nothing is deleted.\n` +
+        `  2. Call again with confirmation_token=<token> → deletes the record.\n` +
+        `     The token is single-use, expires after 5 minutes, and is refused if the record changed since step 1.\n` +
+        `dry_run=true: same as step 1.\n\n` +
         `Tip: Use cf_dns_get_record first to verify you have the right record.\n\n` +
-        `Returns: { deleted: true, record_id: "..." }`,
+        `Returns: preview { before, conflicts, confirmation_token, expires_at } or { deleted: true, record_id: "..." }`,
       inputSchema: DeleteRecordSchema,
       annotations: {
         readOnlyHint: false,
@@ -159,36 +233,43 @@ export function registerRecordWriteTools(server: McpServer): void {
         openWorldHint: true,
       },
     },
-    async (params: DeleteRecordInput) => {
+    async (params: DeleteRecordInput, extra) => {
       try {
-        // Safety: confirm must be true (enforced by Zod z.literal(true))
-        if (!params.confirm) {
+        const zoneId = await resolveZoneId(params);
+        const client = getClient();
+        const tool = "cf_dns_delete_record";
+
+        if (params.dry_run || !params.confirmation_token) {
+          const record = (await client.dns.records.get(params.record_id, { zone_id: zoneId })) as unknown as Record<string, unknown>;
+          const preview = await previewDelete(zoneId, record);
+          const confirmation = await issueConfirmation(tool, zoneId, [record]);
+          const output = {
+            dry_run: true,
+            operation: "delete",
+            ...preview,
+            confirmation_token: confirmation.token,
+            expires_at: new Date(confirmation.expires_at).toISOString(),
+            next_step: `To delete, call again with confirmation_token="${confirmation.token}".`,
+          };
           return {
-            content: [{
-              type: "text" as const,
-              text: "Delete aborted. You must set confirm=true to permanently delete a DNS record.",
-            }],
-            isError: true,
+            content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }],
           };
         }
 
-        const client = getClient();
-
-        // Fetch the record first so we can show what was deleted
-        let recordInfo: string;
-        try {
-          const existing = await client.dns.records.get(params.record_id, {
-            zone_id: params.zone_id,
-          });
-          const r = existing as unknown as Record<string, unknown>;
-          recordInfo = `${r.type} ${r.name} → ${r.content}`;
-        } catch {
-          recordInfo = params.record_id;
-        }
+        // The token must come from a preview of this record as it is now
+        const confirmation = await redeemConfirmation(params.confirmation_token, tool, zoneId);
+        const before = (await client.dns.records.get(params.record_id, { zone_id: zoneId })) as unknown as Record<string, unknown>;
+        assertUnchanged(confirmation, [before]);
+        await enforcePolicies(zoneId, [{ action: "delete", before, after: null }]);
 
         await client.dns.records.delete(params.record_id, {
-          zone_id: params.zone_id,
+          zone_id: zoneId,
         });
+        await invalidateZone(zoneId);
+
+        await recordChanges(writeContext(tool, extra.authInfo), zoneId, [
+          { action: "delete", before, after: null },
+        ]);
 
         return {
           content: [{
@@ -196,7 +277,7 @@ export function registerRecordWriteTools(server: McpServer): void {
             text: JSON.stringify({
               deleted: true,
               record_id: params.record_id,
-              was: recordInfo,
+              was: `${before.type} ${before.name} → ${before.content}`,
             }, null, 2),
           }],
         };
@@ -0,0 +1,172 @@
+/**
+ * Zone snapshot tools: cf_dns_snapshot_zone, cf_dns_list_snapshots, cf_dns_restore_snapshot
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchAllRecords, filterAccessibleZones, getZoneName, resolveZoneId, runForZone } from "../services/cloudflare.js";
+import { getSnapshotStore, buildSnapshot, snapshotToDesired } from "../services/snapshots.js";
+import { createPlan, applyPlan, planAtRisk } from "../services/plans.js";
+import { writeContext } from "../services/journal.js";
+import { issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { formatPlan, formatApplyResult, planHasChanges } from "../formatters/plan.js";
+import { renderOutput } from "../formatters/output.js";
+import { handleApiError } from "../utils/errors.js";
+import { SnapshotZoneSchema, ListSnapshotsSchema, RestoreSnapshotSchema } from "../schemas/snapshots.js";
+import type { SnapshotZoneInput, ListSnapshotsInput, RestoreSnapshotInput } from "../schemas/snapshots.js";
+
+export function registerSnapshotTools(server: McpServer): void {
+  // ─── cf_dns_snapshot_zone ────────────────────────────────────
+  server.registerTool(
+    "cf_dns_snapshot_zone",
+    {
+      title: "Snapshot DNS Zone",
+      description:
+        `Capture a zone's full record set — including comments, tags and structured data — ` +
+        `as a point-in-time snapshot. Take one before sweeping changes.\n\n` +
+        `Returns: { snapshot: { id, zone_id, zone_name, label, created_at, record_count } }`,
+      inputSchema: SnapshotZoneSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: SnapshotZoneInput) => {
+      try {
+        const zoneId = await resolveZoneId(params);
+        const zoneName = await getZoneName(zoneId);
+        const records = await fetchAllRecords(zoneId);
+
+        const snapshot = buildSnapshot(zoneId, zoneName, records, params.label);
+        await getSnapshotStore().put(snapshot);
+
+        const { records: _records, ...meta } = snapshot;
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ snapshot: meta }, null, 2) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ─── cf_dns_list_snapshots ───────────────────────────────────
+  server.registerTool(
+    "cf_dns_list_snapshots",
+    {
+      title: "List DNS Zone Snapshots",
+      description:
+        `List stored zone snapshots, newest first. Pass zone_id or zone_name to limit to one zone.\n\n` +
+        `Returns: { count, snapshots: [{ id, zone_id, zone_name, label, created_at, record_count }] }`,
+      inputSchema: ListSnapshotsSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (params: ListSnapshotsInput) => {
+      try {
+        const zoneId = params.zone_id || params.zone_name ? await resolveZoneId(params) : undefined;
+        const all = await filterAccessibleZones(await getSnapshotStore().list(zoneId), (m) => ({
+          id: m.zone_id,
+          name: m.zone_name,
+        }));
+        const snapshots = all.slice(0, params.limit);
+        return {
+          content: [{
+            type: "text" as const,
+            text: chunkIfNeeded(renderOutput({ count: snapshots.length, snapshots }, params.format)),
+          }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ─── cf_dns_restore_snapshot ─────────────────────────────────
+  server.registerTool(
+    "cf_dns_restore_snapshot",
+    {
+      title: "Restore DNS Zone Snapshot",
+      description:
+        `Restore a zone to a snapshot. Two steps:\n` +
+        `  1. Call with snapshot_id only → returns the restore plan (records to create, update, delete) and a confirmation_token. Nothing is written.\n` +
+        `  2. Call again with the same snapshot_id and confirmation_token=<token> → applies that plan atomically.\n` +
+        `     The token is single-use, expires after 5 minutes, and only restores the snapshot it was issued for.\n\n` +
+        `Records created after the snapshot are deleted; deleted records are re-created (with new IDs); ` +
+        `changed content, TTL, proxy status, comments and tags are patched back. If the zone changes ` +
+        `between the two steps, the restore is refused.\n\n` +
+        `Returns: plan { plan_id, summary, changes, confirmation_token } or { deleted, updated, created }`,
+      inputSchema: RestoreSnapshotSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: RestoreSnapshotInput, extra) => {
+      try {
+        const snapshot = await getSnapshotStore().get(params.snapshot_id);
+        if (!snapshot) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `Snapshot '${params.snapshot_id}' not found. Use cf_dns_list_snapshots to see available snapshots.`,
+            }],
+            isError: true,
+          };
+        }
+
+        // The snapshot names the zone, so route to the profile owning it now
+        const tool = "cf_dns_restore_snapshot";
+        const zoneId = snapshot.zone_id;
+        if (params.confirmation_token) {
+          const token = params.confirmation_token;
+          const { plan, result } = await runForZone(zoneId, async () => {
+            // applyPlan checks the records the plan deletes or overwrites are as they were previewed
+            const confirmation = await redeemConfirmation(token, tool, zoneId, { snapshot_id: snapshot.id });
+            return applyPlan(writeContext(tool, extra.authInfo), zoneId, confirmation.plan_id!, confirmation);
+          });
+          const output = { snapshot_id: snapshot.id, ...formatApplyResult(plan, result) };
+          return {
+            content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+          };
+        }
+
+        const plan = await runForZone(zoneId, () => createPlan(tool, zoneId, snapshotToDesired(snapshot), true));
+        const confirmation = planHasChanges(plan)
+          ? await issueConfirmation(tool, zoneId, planAtRisk(plan), { plan_id: plan.id, snapshot_id: snapshot.id })
+          : null;
+        const output = {
+          snapshot_id: snapshot.id,
+          zone: snapshot.zone_name,
+          snapshot_created_at: snapshot.created_at,
+          ...formatPlan(plan),
+          ...(confirmation ? { confirmation_token: confirmation.token } : {}),
+          next_step: confirmation
+            ? `Review the changes, then call cf_dns_restore_snapshot(snapshot_id="${snapshot.id}", confirmation_token="${confirmation.token}") within 5 minutes.`
+            : "Zone already matches the snapshot. Nothing to restore.",
+        };
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Zone lint tool: cf_dns_audit_zone
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { fetchAllRecords, getZoneName, resolveZoneId } from "../services/cloudflare.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { renderOutput } from "../formatters/output.js";
+import { handleApiError } from "../utils/errors.js";
+import { lintZone, atLeast } from "../utils/lint.js";
+import { AuditZoneSchema } from "../schemas/audit.js";
+import type { AuditZoneInput } from "../schemas/audit.js";
+
+export function registerZoneAuditTools(server: McpServer): void {
+  // ─── cf_dns_audit_zone ───────────────────────────────────────
+  server.registerTool(
+    "cf_dns_audit_zone",
+    {
+      title: "Audit DNS Zone",
+      description:
+        `Run health and security rules over a zone's records and return findings by severity. Nothing is written.\n\n` +
+        `Rules:\n` +
+        `  • private-ip         (error)   A/AAAA records pointing at private, loopback or link-local addresses\n` +
+        `  • dangling-cname     (error)   CNAMEs to names in this zone that have no records\n` +
+        `  • duplicate-spf      (error)   more than one SPF TXT record at a name\n` +
+        `  • missing-dmarc      (warning, info if the zone has no MX/SPF) no DMARC record at _dmarc\n` +
+        `  • unproxied-origin   (warning) DNS-only A/AAAA records exposing origin IPs (MX targets excluded)\n` +
+        `  • wildcard-shadowing (warning) names that exist and so block a wildcard's other types\n` +
+        `  • inconsistent-ttl   (warning) one RRset with different TTLs\n\n` +
+        `Returns: { zone, records_checked, summary: { error, warning, info }, findings: [{ rule, severity, message, records }] }`,
+      inputSchema: AuditZoneSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: AuditZoneInput) => {
+      try {
+        const zoneId = await resolveZoneId(params);
+        const zoneName = await getZoneName(zoneId);
+        const records = await fetchAllRecords(zoneId);
+
+        const findings = lintZone(records, zoneName, params.rules).filter((f) => atLeast(f, params.min_severity));
+        const count = (severity: string) => findings.filter((f) => f.severity === severity).length;
+        const output = {
+          zone: zoneName,
+          records_checked: records.length,
+          summary: { error: count("error"), warning: count("warning"), info: count("info") },
+          findings,
+        };
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(renderOutput(output, params.format)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Declarative zone sync tools: cf_dns_plan, cf_dns_apply
+ */
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import { getZoneName, resolveZoneId } from "../services/cloudflare.js";
+import { createPlan, applyPlan, planAtRisk, requirePlan } from "../services/plans.js";
+import { issueConfirmation, redeemConfirmation } from "../services/confirmations.js";
+import { writeContext } from "../services/journal.js";
+import { chunkIfNeeded } from "../services/continuations.js";
+import { formatPlan, formatApplyResult, planHasChanges } from "../formatters/plan.js";
+import { handleApiError } from "../utils/errors.js";
+import type { DesiredRecord } from "../utils/diff.js";
+import { qualifyName } from "../utils/records.js";
+import { PlanSchema, ApplySchema, RecordEntrySchema } from "../schemas/records.js";
+import type { PlanInput, ApplyInput, RecordEntry } from "../schemas/records.js";
+
+/**
+ * Parses the `desired` parameter (array, JSON or YAML text) into record entries.
+ * Throws with a readable message when the document does not match the schema.
+ */
+function parseDesired(desired: PlanInput["desired"]): RecordEntry[] {
+  if (Array.isArray(desired)) return desired;
+
+  let doc: unknown;
+  try {
+    doc = parseYaml(desired); // YAML is a superset of JSON
+  } catch (error) {
+    throw new Error(`Could not parse desired document as JSON or YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (doc && typeof doc === "object" && !Array.isArray(doc) && "records" in doc) {
+    doc = (doc as { records: unknown }).records;
+  }
+
+  const result = z.array(RecordEntrySchema).safeParse(doc);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 10)
+      .map((i) => `  ${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("\n");
+    throw new Error(`Desired document is not a valid record list:\n${issues}`);
+  }
+  return result.data;
+}
+
+export function registerZoneSyncTools(server: McpServer): void {
+  // ─── cf_dns_plan ─────────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_plan",
+    {
+      title: "Plan DNS Zone Changes",
+      description:
+        `Diff a desired record set against a zone's live records and produce a reviewable plan. ` +
+        `Nothing is written.\n\n` +
+        `desired: array of records (same shape as cf_dns_bulk_create) or a JSON/YAML document ` +
+        `with that array (optionally under 'records'). Relative names ('www', '@') are qualified with the zone name.\n` +
+        `prune=true (default) deletes live records missing from the desired set.\n\n` +
+        `Records are matched per type+name; changed values become in-place updates.\n` +
+        `The plan ID is stable: the same desired state against an unchanged zone yields the same ID.\n` +
+        `A plan that deletes or updates records also returns a confirmation_token, which cf_dns_apply needs within 5 minutes. ` +
+        `Only the credential that created a plan can apply it.\n\n` +
+        `Returns: { plan_id, summary: { create, update, delete, unchanged }, changes, expires_at, confirmation_token? }`,
+      inputSchema: PlanSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (params: PlanInput) => {
+      try {
+        const zoneId = await resolveZoneId(params);
+        const zoneName = await getZoneName(zoneId);
+        const desired: DesiredRecord[] = parseDesired(params.desired).map((r) => ({
+          ...r,
+          name: qualifyName(r.name, zoneName),
+        }));
+
+        const plan = await createPlan("cf_dns_apply", zoneId, desired, params.prune);
+        // Deletes and updates change existing records, so only plans with neither apply without a token
+        const atRisk = planAtRisk(plan);
+        const confirmation = atRisk.length > 0
+          ? await issueConfirmation("cf_dns_apply", zoneId, atRisk, { plan_id: plan.id })
+          : null;
+        const output = {
+          zone: zoneName,
+          ...formatPlan(plan),
+          ...(confirmation
+            ? { confirmation_token: confirmation.token, confirmation_expires_at: new Date(confirmation.expires_at).toISOString() }
+            : {}),
+          next_step: !planHasChanges(plan)
+            ? "Zone already matches the desired state. Nothing to apply."
+            : confirmation
+              ? `Review the changes, then call cf_dns_apply(zone_id, plan_id="${plan.id}", confirmation_token="${confirmation.token}") within 5 minutes.`
+              : `Review the changes, then call cf_dns_apply(zone_id, plan_id="${plan.id}").`,
+        };
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // ─── cf_dns_apply ────────────────────────────────────────────
+  server.registerTool(
+    "cf_dns_apply",
+    {
+      title: "Apply DNS Zone Plan",
+      description:
+        `Apply a plan produced by cf_dns_plan. Runs exactly that plan and nothing else.\n\n` +
+        `Before writing, the zone is re-diffed against the plan's desired state. If the live ` +
+        `records changed since the plan was made (different plan ID), apply is refused — run ` +
+        `cf_dns_plan again. Plans expire after 30 minutes, can be applied once, and only by the credential that created them.\n` +
+        `A plan that deletes or updates records needs the confirmation_token cf_dns_plan returned with it (single-use, ` +
+        `valid for 5 minutes); the apply is refused if any record it deletes or updates was edited since.\n\n` +
+        `The whole plan is applied atomically in one batch request (deletes, then updates, then creates): ` +
+        `if any operation fails, nothing is changed.\n\n` +
+        `Returns: { plan_id, deleted, updated, created, records: { updated, created } }`,
+      inputSchema: ApplySchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (params: ApplyInput, extra) => {
+      try {
+        const zoneId = await resolveZoneId(params);
+        const tool = "cf_dns_apply";
+        // A token is only spent on a plan this caller can apply
+        const { id: planId } = requirePlan(tool, zoneId, params.plan_id);
+        const confirmation = params.confirmation_token
+          ? await redeemConfirmation(params.confirmation_token, tool, zoneId, { plan_id: planId })
+          : undefined;
+        const { plan, result } = await applyPlan(writeContext(tool, extra.authInfo), zoneId, planId, confirmation);
+        const output = formatApplyResult(plan, result);
+        return {
+          content: [{ type: "text" as const, text: chunkIfNeeded(JSON.stringify(output, null, 2)) }],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: handleApiError(error) }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -2,9 +2,20 @@
  * Zone read tools: cf_dns_list_zones, cf_dns_get_zone
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getClient } from "../services/cloudflare.js";
-import { formatZone, formatZones } from "../formatters/zone.js";
-import { buildPaginationMeta, truncateIfNeeded } from "../utils/pagination.js";
+import {
+  getClient,
+  fetchAllZones,
+  fetchZonesPage,
+  filterAccessibleZones,
+  resolveZoneId,
+} from "../services/cloudflare.js";
+import { currentPrincipal, hasZoneRules } from "../services/access.js";
+import { cached } from "../services/cache.js";
+import { chunkIfNeeded, storeForContinuation } from "../services/continuations.js";
+import { formatZone, formatZones, buildZoneSummary } from "../formatters/zone.js";
+import { renderOutput } from "../formatters/output.js";
+import { fitOutput } from "../formatters/adaptive.js";
+import { buildPaginationMeta } from "../utils/pagination.js";
 import { handleApiError } from "../utils/errors.js";
 import { ListZonesSchema, GetZoneSchema } from "../schemas/zones.js";
 import type { ListZonesInput, GetZoneInput } from "../schemas/zones.js";
@@ -18,8 +29,10 @@ export function registerZoneTools(server: McpServer): void {
       description:
         `List DNS zones (domains) in your Cloudflare account. ` +
         `Returns concise output by default (id, name, status, nameservers). ` +
-        `Use filters to narrow results. Use include_details=true for full zone metadata.\n\n` +
-        `Returns: { pagination: { total, count, page, per_page, has_more }, zones: [...] }`,
+        `Use filters to narrow results. Use include_details=true for full zone metadata. ` +
+        `Each call fetches one page (5–50 zones) in a single API request; pagination.total is the account-wide count. ` +
+        `For an API key limited to some zones, all zones are fetched and the pagination covers only the zones it may access.\n\n` +
+        `Returns: { pagination: { total, count, page, per_page, total_pages, has_more }, zones: [...] }`,
       inputSchema: ListZonesSchema,
       annotations: {
         readOnlyHint: true,
@@ -30,39 +43,45 @@ export function registerZoneTools(server: McpServer): void {
     },
     async (params: ListZonesInput) => {
       try {
-        const client = getClient();
         const concise = params.include_details ? false : params.concise;
 
-        const queryParams: Record<string, unknown> = {
-          page: params.page,
-          per_page: params.per_page,
-        };
+        const queryParams: Record<string, unknown> = {};
         if (params.filter_name) queryParams.name = params.filter_name;
         if (params.filter_status) queryParams.status = params.filter_status;
         if (params.filter_account_id) queryParams["account.id"] = params.filter_account_id;
 
-        const response = await client.zones.list(queryParams as Parameters<typeof client.zones.list>[0]);
-
-        // Extract zones from the response
-        const zones: Record<string, unknown>[] = [];
-        for await (const zone of response) {
-          zones.push(zone as unknown as Record<string, unknown>);
+        let visible: Record<string, unknown>[];
+        let total: number;
+        if (hasZoneRules(currentPrincipal())) {
+          // Zone rules hide part of every page, so filter the whole list and page through what is left
+          const all = await cached(null, `zones:${JSON.stringify(queryParams)}:all`, () => fetchAllZones(queryParams));
+          const accessible = await filterAccessibleZones(all, (z) => ({ id: String(z.id), name: String(z.name) }));
+          const start = (params.page - 1) * params.per_page;
+          visible = accessible.slice(start, start + params.per_page);
+          total = accessible.length;
+        } else {
+          // One request per page; result_info.total_count gives the real total
+          ({ items: visible, total } = await cached(
+            null,
+            `zones:${JSON.stringify(queryParams)}:${params.page}:${params.per_page}`,
+            () => fetchZonesPage(queryParams, params.page, params.per_page)
+          ));
         }
-
-        const total = zones.length; // The SDK auto-paginates, so we get all matching
-        const formatted = formatZones(zones, concise);
-        const pagination = buildPaginationMeta(total, formatted, params.page, params.per_page);
-
-        // Apply manual pagination since SDK auto-paginates
-        const start = (params.page - 1) * params.per_page;
-        const paged = formatted.slice(start, start + params.per_page);
+        const formatted = formatZones(visible, concise);
 
         const output = {
-          pagination: { ...pagination, count: paged.length },
-          zones: paged,
+          pagination: buildPaginationMeta(total, formatted, params.page, params.per_page),
+          zones: formatted,
         };
 
-        const text = truncateIfNeeded(JSON.stringify(output, null, 2));
+        const text = chunkIfNeeded(
+          fitOutput(output, params.format, params.max_output_chars, {
+            rowsKey: "zones",
+            rrsets: false,
+            summarize: buildZoneSummary,
+            cursorFor: storeForContinuation,
+          })
+        );
         return { content: [{ type: "text" as const, text }] };
       } catch (error) {
         return {
@@ -95,36 +114,13 @@ export function registerZoneTools(server: McpServer): void {
         const client = getClient();
         const concise = params.include_details ? false : params.concise;
 
-        let zoneId = params.zone_id;
-
-        // If zone_name provided, look up the zone ID
-        if (!zoneId && params.zone_name) {
-          const search = await client.zones.list({ name: params.zone_name });
-          const zones: Record<string, unknown>[] = [];
-          for await (const z of search) {
-            zones.push(z as unknown as Record<string, unknown>);
-          }
-          if (zones.length === 0) {
-            return {
-              content: [{ type: "text" as const, text: `No zone found for domain '${params.zone_name}'.` }],
-              isError: true,
-            };
-          }
-          zoneId = String(zones[0].id);
-        }
-
-        if (!zoneId) {
-          return {
-            content: [{ type: "text" as const, text: "Provide either zone_id or zone_name." }],
-            isError: true,
-          };
-        }
+        const zoneId = await resolveZoneId(params);
 
-        const zone = await client.zones.get({ zone_id: zoneId });
+        const zone = await cached(zoneId, "zone", () => client.zones.get({ zone_id: zoneId }));
         const formatted = formatZone(zone as unknown as Record<string, unknown>, concise);
 
         const output = { zone: formatted };
-        return { content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }] };
+        return { content: [{ type: "text" as const, text: renderOutput(output, params.format) }] };
       } catch (error) {
         return {
           content: [{ type: "text" as const, text: handleApiError(error) }],
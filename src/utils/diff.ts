@@ -0,0 +1,149 @@
+/**
+ * Record-set diffing — computes the create/update/delete operations needed
+ * to converge a zone's live records onto a desired record set.
+ *
+ * Records are grouped into RRsets by type + name. Within an RRset, records
+ * with identical values are paired first; remaining records are paired in
+ * order and become content updates, so a changed A record is patched in
+ * place instead of being deleted and re-created.
+ */
+import { normalizeContent, recordKey } from "./records.js";
+
+/** A desired record with a fully-qualified name. */
+export interface DesiredRecord {
+  type: string;
+  name: string;
+  content: string;
+  ttl: number;
+  proxied?: boolean;
+  priority?: number;
+  comment?: string;
+  tags?: string[];
+  data?: Record<string, unknown>;
+}
+
+export interface RecordUpdate {
+  record_id: string;
+  before: Record<string, unknown>;
+  /** Only the fields that change. */
+  patch: Record<string, unknown>;
+}
+
+export interface RecordChangeSet {
+  creates: DesiredRecord[];
+  updates: RecordUpdate[];
+  deletes: Record<string, unknown>[];
+  unchanged: number;
+}
+
+function rrsetKey(record: { type?: unknown; name?: unknown }): string {
+  return `${String(record.type ?? "").toUpperCase()}|${String(record.name ?? "").toLowerCase()}`;
+}
+
+function sameTags(a: unknown, b: string[]): boolean {
+  const left = Array.isArray(a) ? (a as string[]).map(String).sort() : [];
+  const right = [...b].sort();
+  return left.length === right.length && left.every((t, i) => t === right[i]);
+}
+
+function sameData(live: unknown, desired: Record<string, unknown>): boolean {
+  const current = (live ?? {}) as Record<string, unknown>;
+  return Object.entries(desired).every(([k, v]) => JSON.stringify(current[k]) === JSON.stringify(v));
+}
+
+/**
+ * Returns the fields of `desired` that differ from `live`. Optional fields
+ * (proxied, priority, comment, tags, data) are only compared when the
+ * desired record specifies them.
+ */
+export function buildPatch(live: Record<string, unknown>, desired: DesiredRecord): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  const type = desired.type;
+
+  if (normalizeContent(type, String(live.content ?? "")) !== normalizeContent(type, desired.content)) {
+    patch.content = desired.content;
+  }
+  if (Number(live.ttl) !== desired.ttl) patch.ttl = desired.ttl;
+  if (desired.proxied !== undefined && Boolean(live.proxied) !== desired.proxied) {
+    patch.proxied = desired.proxied;
+  }
+  if (desired.priority !== undefined && Number(live.priority) !== desired.priority) {
+    patch.priority = desired.priority;
+  }
+  if (desired.comment !== undefined && String(live.comment ?? "") !== desired.comment) {
+    patch.comment = desired.comment;
+  }
+  if (desired.tags !== undefined && !sameTags(live.tags, desired.tags)) {
+    patch.tags = desired.tags;
+  }
+  if (desired.data !== undefined && !sameData(live.data, desired.data)) {
+    patch.data = desired.data;
+  }
+  return patch;
+}
+
+/**
+ * Diffs live records against a desired record set.
+ *
+ * @param live    Records as returned by the Cloudflare API.
+ * @param desired Desired records with fully-qualified names.
+ * @param prune   When true, live records absent from the desired set are deleted.
+ */
+export function diffRecords(
+  live: Record<string, unknown>[],
+  desired: DesiredRecord[],
+  prune: boolean
+): RecordChangeSet {
+  const changes: RecordChangeSet = { creates: [], updates: [], deletes: [], unchanged: 0 };
+
+  const liveSets = new Map<string, Record<string, unknown>[]>();
+  for (const r of live) {
+    const key = rrsetKey(r);
+    liveSets.set(key, [...(liveSets.get(key) ?? []), r]);
+  }
+  const desiredSets = new Map<string, DesiredRecord[]>();
+  for (const d of desired) {
+    const key = rrsetKey(d);
+    desiredSets.set(key, [...(desiredSets.get(key) ?? []), d]);
+  }
+
+  const pair = (liveRecord: Record<string, unknown>, desiredRecord: DesiredRecord) => {
+    const patch = buildPatch(liveRecord, desiredRecord);
+    if (Object.keys(patch).length === 0) {
+      changes.unchanged++;
+    } else {
+      changes.updates.push({ record_id: String(liveRecord.id), before: liveRecord, patch });
+    }
+  };
+
+  for (const [key, wanted] of desiredSets) {
+    const remainingLive = [...(liveSets.get(key) ?? [])];
+    const remainingDesired: DesiredRecord[] = [];
+
+    // Pass 1: pair records with identical values
+    for (const d of wanted) {
+      const idx = remainingLive.findIndex((l) => recordKey(l) === recordKey(d));
+      if (idx >= 0) {
+        pair(remainingLive[idx], d);
+        remainingLive.splice(idx, 1);
+      } else {
+        remainingDesired.push(d);
+      }
+    }
+
+    // Pass 2: pair the rest in order as in-place updates
+    while (remainingDesired.length > 0 && remainingLive.length > 0) {
+      pair(remainingLive.shift()!, remainingDesired.shift()!);
+    }
+
+    changes.creates.push(...remainingDesired);
+    if (prune) changes.deletes.push(...remainingLive);
+    liveSets.delete(key);
+  }
+
+  if (prune) {
+    for (const rest of liveSets.values()) changes.deletes.push(...rest);
+  }
+
+  return changes;
+}
@@ -0,0 +1,367 @@
+import { isIPv4, isIPv6 } from "node:net";
+import { isHostname } from "./validation.js";
+
+/**
+ * SPF, DMARC and DKIM parsing, validation and generation.
+ *
+ * Parsers never throw: they return the structured record together with
+ * `errors` (the record is broken — receivers will ignore it or fail it) and
+ * `warnings` (valid, but probably not what was meant). Builders produce the
+ * TXT content for structured input; their output parses without errors.
+ */
+
+export interface ParseResult<T> {
+  record: T;
+  errors: string[];
+  warnings: string[];
+}
+
+/** Mechanisms and modifiers that cost a DNS lookup (RFC 7208 §4.6.4). */
+const SPF_LOOKUP_TERMS = ["include", "a", "mx", "ptr", "exists", "redirect"];
+
+/** RFC 7208's cap on DNS lookups during SPF evaluation. */
+export const SPF_LOOKUP_LIMIT = 10;
+
+// ─── SPF ────────────────────────────────────────────────────────
+
+export type SpfQualifier = "+" | "-" | "~" | "?";
+
+export interface SpfTerm {
+  qualifier: SpfQualifier;
+  mechanism: string;
+  value?: string;
+}
+
+export interface SpfRecord {
+  terms: SpfTerm[];
+  redirect?: string;
+  exp?: string;
+  /** Lookups made by this record alone, not counting nested includes. */
+  lookups: number;
+}
+
+/** True for TXT content that is an SPF record. */
+export function isSpf(value: string): boolean {
+  return /^v=spf1(\s|$)/i.test(value.trim());
+}
+
+export function parseSpf(value: string): ParseResult<SpfRecord> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const record: SpfRecord = { terms: [], lookups: 0 };
+
+  const parts = value.trim().split(/\s+/);
+  if (parts[0]?.toLowerCase() !== "v=spf1") {
+    errors.push("SPF record must start with 'v=spf1'.");
+    return { record, errors, warnings };
+  }
+
+  for (const part of parts.slice(1)) {
+    const modifier = part.match(/^(redirect|exp)=(.*)$/i);
+    if (modifier) {
+      const key = modifier[1].toLowerCase() as "redirect" | "exp";
+      if (record[key] !== undefined) errors.push(`'${key}=' appears more than once.`);
+      if (!modifier[2]) errors.push(`'${key}=' needs a domain.`);
+      record[key] = modifier[2];
+      if (key === "redirect") record.lookups++;
+      continue;
+    }
+
+    const match = part.match(/^([+\-~?]?)([a-z0-9]+)(?:[:/](.*))?$/i);
+    if (!match) {
+      errors.push(`Cannot parse term '${part}'.`);
+      continue;
+    }
+    const qualifier = (match[1] || "+") as SpfQualifier;
+    const mechanism = match[2].toLowerCase();
+    const rest = part.slice(match[1].length + match[2].length);
+    const term: SpfTerm = { qualifier, mechanism, ...(rest ? { value: rest.replace(/^:/, "") } : {}) };
+
+    switch (mechanism) {
+      case "all":
+        if (rest) errors.push("'all' takes no value.");
+        break;
+      case "include":
+      case "exists":
+        if (!term.value) errors.push(`'${mechanism}' needs a domain, e.g. ${mechanism}:_spf.example.com.`);
+        break;
+      case "ip4":
+      case "ip6": {
+        const [ip, prefix] = (term.value ?? "").split("/");
+        const valid = mechanism === "ip4" ? isIPv4(ip) : isIPv6(ip);
+        const max = mechanism === "ip4" ? 32 : 128;
+        if (!valid) errors.push(`'${part}' is not a valid ${mechanism === "ip4" ? "IPv4" : "IPv6"} address.`);
+        else if (prefix !== undefined && !(/^\d+$/.test(prefix) && Number(prefix) <= max)) {
+          errors.push(`'${part}' has an invalid prefix length (0-${max}).`);
+        }
+        break;
+      }
+      case "a":
+      case "mx":
+        break;
+      case "ptr":
+        warnings.push("'ptr' is deprecated (RFC 7208 §5.5) and slow; list the addresses with ip4/ip6 instead.");
+        break;
+      default:
+        errors.push(`Unknown mechanism '${mechanism}'.`);
+        continue;
+    }
+    if (SPF_LOOKUP_TERMS.includes(mechanism)) record.lookups++;
+    record.terms.push(term);
+  }
+
+  const allIndex = record.terms.findIndex((t) => t.mechanism === "all");
+  if (allIndex >= 0 && allIndex < record.terms.length - 1) {
+    warnings.push("Terms after 'all' are never evaluated.");
+  }
+  if (allIndex >= 0 && record.redirect) {
+    warnings.push("'redirect=' is ignored when the record has an 'all' mechanism.");
+  }
+  if (allIndex < 0 && !record.redirect) {
+    warnings.push("No 'all' mechanism or redirect: unmatched senders get a neutral result. End with -all or ~all.");
+  }
+  if (record.terms.some((t) => t.mechanism === "all" && t.qualifier === "+")) {
+    errors.push("'+all' authorises every server on the internet to send as this domain.");
+  }
+
+  return { record, errors, warnings };
+}
+
+export interface SpfInput {
+  ip4?: string[];
+  ip6?: string[];
+  include?: string[];
+  a?: boolean;
+  mx?: boolean;
+  all: "fail" | "softfail" | "neutral";
+}
+
+const ALL_QUALIFIERS: Record<SpfInput["all"], SpfQualifier> = { fail: "-", softfail: "~", neutral: "?" };
+
+export function buildSpf(input: SpfInput): string {
+  const terms = ["v=spf1"];
+  if (input.a) terms.push("a");
+  if (input.mx) terms.push("mx");
+  for (const ip of input.ip4 ?? []) terms.push(`ip4:${ip}`);
+  for (const ip of input.ip6 ?? []) terms.push(`ip6:${ip}`);
+  for (const domain of input.include ?? []) terms.push(`include:${domain}`);
+  terms.push(`${ALL_QUALIFIERS[input.all]}all`);
+  return terms.join(" ");
+}
+
+// ─── Tag-value records (DMARC, DKIM) ────────────────────────────
+
+function parseTags(value: string, errors: string[]): Map<string, string> {
+  const tags = new Map<string, string>();
+  for (const part of value.split(";")) {
+    if (!part.trim()) continue;
+    const eq = part.indexOf("=");
+    if (eq < 0) {
+      errors.push(`Cannot parse '${part.trim()}' — expected tag=value.`);
+      continue;
+    }
+    const key = part.slice(0, eq).trim().toLowerCase();
+    if (tags.has(key)) errors.push(`Tag '${key}' appears more than once.`);
+    tags.set(key, part.slice(eq + 1).trim());
+  }
+  return tags;
+}
+
+// ─── DMARC ──────────────────────────────────────────────────────
+
+export type DmarcPolicy = "none" | "quarantine" | "reject";
+
+export interface DmarcRecord {
+  p?: DmarcPolicy;
+  sp?: DmarcPolicy;
+  pct?: number;
+  rua: string[];
+  ruf: string[];
+  adkim?: "r" | "s";
+  aspf?: "r" | "s";
+  fo?: string;
+  ri?: number;
+}
+
+const DMARC_POLICIES = ["none", "quarantine", "reject"];
+
+function parseUris(value: string, tag: string, errors: string[]): string[] {
+  const uris = value.split(",").map((u) => u.trim()).filter(Boolean);
+  for (const uri of uris) {
+    if (!/^mailto:[^@\s]+@[^@\s]+\.[^@\s]+?(!\d+[kmgt]?)?$/i.test(uri)) {
+      errors.push(`${tag} entry '${uri}' must be a mailto: address, e.g. mailto:dmarc@example.com.`);
+    }
+  }
+  return uris;
+}
+
+/** True for TXT content that is a DMARC record. */
+export function isDmarc(value: string): boolean {
+  return /^v\s*=\s*DMARC1\s*(;|$)/i.test(value.trim());
+}
+
+export function parseDmarc(value: string): ParseResult<DmarcRecord> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const record: DmarcRecord = { rua: [], ruf: [] };
+
+  if (!isDmarc(value)) {
+    errors.push("DMARC record must start with 'v=DMARC1;'.");
+    return { record, errors, warnings };
+  }
+
+  const tags = parseTags(value, errors);
+  for (const [key, val] of tags) {
+    switch (key) {
+      case "v":
+        break;
+      case "p":
+      case "sp":
+        if (DMARC_POLICIES.includes(val.toLowerCase())) record[key] = val.toLowerCase() as DmarcPolicy;
+        else errors.push(`${key}=${val} is not a policy; use none, quarantine or reject.`);
+        break;
+      case "pct":
+        if (/^\d+$/.test(val) && Number(val) <= 100) record.pct = Number(val);
+        else errors.push(`pct=${val} must be an integer from 0 to 100.`);
+        break;
+      case "rua":
+      case "ruf":
+        record[key] = parseUris(val, key, errors);
+        break;
+      case "adkim":
+      case "aspf":
+        if (val === "r" || val === "s") record[key] = val;
+        else errors.push(`${key}=${val} must be r (relaxed) or s (strict).`);
+        break;
+      case "fo":
+        if (/^[01ds](:[01ds])*$/.test(val)) record.fo = val;
+        else errors.push(`fo=${val} must be a colon-separated list of 0, 1, d, s.`);
+        break;
+      case "ri":
+        if (/^\d+$/.test(val)) record.ri = Number(val);
+        else errors.push(`ri=${val} must be a number of seconds.`);
+        break;
+      case "rf":
+        break;
+      default:
+        warnings.push(`Unknown tag '${key}' is ignored by receivers.`);
+    }
+  }
+
+  if (!tags.has("p")) errors.push("Missing required tag p= (none, quarantine or reject).");
+  if (record.p === "none") warnings.push("p=none only monitors; move to quarantine or reject once reports look clean.");
+  if (record.rua.length === 0) warnings.push("No rua= address: you will receive no aggregate reports.");
+  if (record.pct !== undefined && record.pct < 100 && record.p !== "none") {
+    warnings.push(`pct=${record.pct}: the policy applies to only ${record.pct}% of failing mail.`);
+  }
+
+  return { record, errors, warnings };
+}
+
+export interface DmarcInput {
+  policy: DmarcPolicy;
+  subdomain_policy?: DmarcPolicy;
+  pct?: number;
+  rua?: string[];
+  ruf?: string[];
+  adkim?: "r" | "s";
+  aspf?: "r" | "s";
+}
+
+const mailto = (address: string) => (address.toLowerCase().startsWith("mailto:") ? address : `mailto:${address}`);
+
+export function buildDmarc(input: DmarcInput): string {
+  const tags = ["v=DMARC1", `p=${input.policy}`];
+  if (input.subdomain_policy) tags.push(`sp=${input.subdomain_policy}`);
+  if (input.pct !== undefined && input.pct !== 100) tags.push(`pct=${input.pct}`);
+  if (input.rua?.length) tags.push(`rua=${input.rua.map(mailto).join(",")}`);
+  if (input.ruf?.length) tags.push(`ruf=${input.ruf.map(mailto).join(",")}`);
+  if (input.adkim) tags.push(`adkim=${input.adkim}`);
+  if (input.aspf) tags.push(`aspf=${input.aspf}`);
+  return tags.join("; ");
+}
+
+// ─── DKIM ───────────────────────────────────────────────────────
+
+export interface DkimRecord {
+  key_type: string;
+  /** Base64 public key; empty when the key has been revoked. */
+  public_key: string;
+  /** Approximate key size in bits (RSA only). */
+  key_bits?: number;
+  hash_algorithms?: string[];
+  flags?: string[];
+  service?: string;
+}
+
+/** True for TXT content that looks like a DKIM key record. */
+export function isDkim(value: string): boolean {
+  return /^v\s*=\s*DKIM1\s*(;|$)/i.test(value.trim()) || /(^|;)\s*p\s*=/i.test(value);
+}
+
+export function parseDkim(value: string): ParseResult<DkimRecord> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const tags = parseTags(value, errors);
+
+  const version = tags.get("v");
+  if (version !== undefined && version !== "DKIM1") errors.push(`v=${version} must be DKIM1.`);
+  if (version !== undefined && !/^\s*v\s*=/i.test(value)) errors.push("v=DKIM1 must be the first tag.");
+
+  const keyType = (tags.get("k") ?? "rsa").toLowerCase();
+  if (!["rsa", "ed25519"].includes(keyType)) errors.push(`k=${keyType} is not a supported key type (rsa, ed25519).`);
+
+  const publicKey = (tags.get("p") ?? "").replace(/\s+/g, "");
+  const record: DkimRecord = { key_type: keyType, public_key: publicKey };
+  if (!tags.has("p")) {
+    errors.push("Missing required tag p= (the base64 public key).");
+  } else if (!publicKey) {
+    warnings.push("p= is empty: this key has been revoked and signatures with it will fail.");
+  } else if (!/^[A-Za-z0-9+/]+={0,2}$/.test(publicKey)) {
+    errors.push("p= is not valid base64.");
+  } else if (keyType === "rsa") {
+    // DER SubjectPublicKeyInfo is a little larger than the modulus
+    record.key_bits = Math.round(((publicKey.length * 3) / 4 - 38) / 8) * 64;
+    if (record.key_bits < 1024) errors.push(`RSA key is about ${record.key_bits} bits; receivers require at least 1024.`);
+    else if (record.key_bits < 2048) warnings.push(`RSA key is about ${record.key_bits} bits; 2048 is recommended.`);
+  }
+
+  if (tags.has("h")) record.hash_algorithms = tags.get("h")!.split(":").map((h) => h.trim());
+  if (record.hash_algorithms?.includes("sha1") && record.hash_algorithms.length === 1) {
+    warnings.push("h=sha1 only: SHA-1 signatures are no longer accepted by many receivers; allow sha256.");
+  }
+  if (tags.has("t")) {
+    record.flags = tags.get("t")!.split(":").map((f) => f.trim());
+    if (record.flags.includes("y")) warnings.push("t=y: the domain is in DKIM testing mode; receivers may ignore failures.");
+  }
+  if (tags.has("s")) record.service = tags.get("s");
+
+  return { record, errors, warnings };
+}
+
+export interface DkimInput {
+  key_type: "rsa" | "ed25519";
+  public_key: string;
+}
+
+export function buildDkim(input: DkimInput): string {
+  const key = input.public_key
+    .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, "")
+    .replace(/\s+/g, "");
+  return `v=DKIM1; k=${input.key_type}; p=${key}`;
+}
+
+// ─── Names ──────────────────────────────────────────────────────
+
+export function dmarcName(domain: string): string {
+  return `_dmarc.${domain}`;
+}
+
+export function dkimName(selector: string, domain: string): string {
+  return `${selector}._domainkey.${domain}`;
+}
+
+/** True for a domain SPF can look up (include:, redirect=). Macros are skipped. */
+export function isLookupTarget(value: string): boolean {
+  return !value.includes("%") && isHostname(value);
+}
@@ -20,7 +20,7 @@ export function handleApiError(error: unknown): string {
       case 409:
         return `Error (409 Conflict): A record with this name and type may already exist. Use cf_dns_list_records to check.`;
       case 429:
-        return `Error (429 Rate Limited): Cloudflare API rate limit hit (1,200 req / 5 min). Wait a moment and retry.`;
+        return `Error (429 Rate Limited): Cloudflare API rate limit hit (1,200 req / 5 min) and retries with backoff were exhausted. Wait a few minutes before retrying, and batch changes to use fewer requests.`;
       default:
         return `Error (${status}): ${error.message}`;
     }
@@ -31,7 +31,7 @@ export function handleApiError(error: unknown): string {
   }
 
   if (error instanceof Cloudflare.RateLimitError) {
-    return `Error: Rate limit exceeded. Cloudflare allows 1,200 requests per 5-minute window. Wait and retry.`;
+    return `Error: Rate limit exceeded and retries with backoff were exhausted. Cloudflare allows 1,200 requests per 5-minute window. Wait a few minutes before retrying.`;
   }
 
   if (error instanceof Cloudflare.AuthenticationError) {
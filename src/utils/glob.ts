@@ -0,0 +1,11 @@
+/**
+ * Name globs for zone and record rules (API key scopes, policies).
+ *
+ * `*` matches any run of characters, dots included, so `*.staging.example.com`
+ * matches `eu.staging.example.com` and `a.b.staging.example.com` but not
+ * `staging.example.com` itself. Matching is case-insensitive.
+ */
+export function matchesGlob(glob: string, value: string): boolean {
+  const escaped = glob.toLowerCase().replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`).test(value.toLowerCase());
+}
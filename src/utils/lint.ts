@@ -0,0 +1,217 @@
+import { isIPv4, isIPv6 } from "node:net";
+
+/**
+ * Zone lint rules for cf_dns_audit_zone.
+ *
+ * Each rule looks at the whole record set of one zone and reports findings
+ * with a severity and the records involved. Rules are pure functions of the
+ * records, so an audit costs one listing of the zone.
+ */
+
+export type Severity = "error" | "warning" | "info";
+
+export const LINT_RULES = [
+  "private-ip",
+  "dangling-cname",
+  "duplicate-spf",
+  "missing-dmarc",
+  "unproxied-origin",
+  "wildcard-shadowing",
+  "inconsistent-ttl",
+] as const;
+
+export type LintRule = (typeof LINT_RULES)[number];
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: Severity;
+  message: string;
+  records: Array<{ id: string; type: string; name: string; content: string }>;
+}
+
+const SEVERITY_ORDER: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+type Rec = Record<string, unknown>;
+
+const lower = (v: unknown) => String(v ?? "").toLowerCase().replace(/\.$/, "");
+
+function ref(r: Rec): LintFinding["records"][number] {
+  return { id: String(r.id ?? ""), type: String(r.type ?? ""), name: String(r.name ?? ""), content: String(r.content ?? "") };
+}
+
+/** TXT content without quoting, chunk separators joined. */
+function txtValue(r: Rec): string {
+  const value = String(r.content ?? "").trim();
+  return /^".*"$/s.test(value) ? value.replace(/"\s+"/g, "").slice(1, -1) : value;
+}
+
+/**
+ * True for addresses that are not routable on the public internet:
+ * RFC 1918, loopback, link-local, CGNAT, unique-local and the like.
+ */
+export function isPrivateIp(ip: string): boolean {
+  if (isIPv4(ip)) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 10 ||
+      a === 127 ||
+      a === 0 ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 169 && b === 254) ||
+      (a === 100 && b >= 64 && b <= 127)
+    );
+  }
+  if (isIPv6(ip)) {
+    const v = ip.toLowerCase();
+    return v === "::1" || v === "::" || /^f[cd]/.test(v) || /^fe[89ab]/.test(v);
+  }
+  return false;
+}
+
+function groupBy(records: Rec[], key: (r: Rec) => string): Map<string, Rec[]> {
+  const groups = new Map<string, Rec[]>();
+  for (const r of records) {
+    const k = key(r);
+    const list = groups.get(k) ?? [];
+    list.push(r);
+    groups.set(k, list);
+  }
+  return groups;
+}
+
+// ─── Rules ──────────────────────────────────────────────────────
+
+type RuleFn = (records: Rec[], zone: string) => LintFinding[];
+
+const rules: Record<LintRule, RuleFn> = {
+  "private-ip": (records) =>
+    records
+      .filter((r) => ["A", "AAAA"].includes(String(r.type)) && isPrivateIp(String(r.content ?? "")))
+      .map((r) => ({
+        rule: "private-ip",
+        severity: "error",
+        message: `${r.name} points at private address ${r.content}, which is unreachable from the internet and leaks internal addressing.`,
+        records: [ref(r)],
+      })),
+
+  "dangling-cname": (records, zone) => {
+    const names = new Set(records.map((r) => lower(r.name)));
+    const exists = (name: string) =>
+      names.has(name) || names.has(`*.${name.split(".").slice(1).join(".")}`);
+    return records
+      .filter((r) => r.type === "CNAME")
+      .filter((r) => {
+        const target = lower(r.content);
+        return (target === zone || target.endsWith(`.${zone}`)) && !exists(target);
+      })
+      .map((r) => ({
+        rule: "dangling-cname",
+        severity: "error",
+        message: `${r.name} is a CNAME to ${r.content}, which has no records in this zone — lookups return NXDOMAIN.`,
+        records: [ref(r)],
+      }));
+  },
+
+  "duplicate-spf": (records) => {
+    const spf = records.filter((r) => r.type === "TXT" && /^v=spf1(\s|$)/i.test(txtValue(r)));
+    return [...groupBy(spf, (r) => lower(r.name))]
+      .filter(([, group]) => group.length > 1)
+      .map(([name, group]) => ({
+        rule: "duplicate-spf",
+        severity: "error",
+        message: `${name} has ${group.length} SPF records. Receivers treat multiple SPF records as a permanent error — merge them into one.`,
+        records: group.map(ref),
+      }));
+  },
+
+  "missing-dmarc": (records, zone) => {
+    const dmarc = records.some(
+      (r) => r.type === "TXT" && lower(r.name) === `_dmarc.${zone}` && /^v=DMARC1(\s*;|$)/i.test(txtValue(r))
+    );
+    if (dmarc) return [];
+    const sendsMail = records.some(
+      (r) => lower(r.name) === zone && (r.type === "MX" || (r.type === "TXT" && /^v=spf1/i.test(txtValue(r))))
+    );
+    return [{
+      rule: "missing-dmarc",
+      severity: sendsMail ? "warning" : "info",
+      message: sendsMail
+        ? `No DMARC record at _dmarc.${zone}, although the zone has MX/SPF records. Add one (start with p=none and a rua address).`
+        : `No DMARC record at _dmarc.${zone}. If the domain sends no mail, publish 'v=DMARC1; p=reject' to stop spoofing.`,
+      records: [],
+    }];
+  },
+
+  "unproxied-origin": (records) => {
+    // Mail servers must stay DNS-only, so MX targets are not flagged
+    const mxTargets = new Set(records.filter((r) => r.type === "MX").map((r) => lower(r.content)));
+    return records
+      .filter((r) => ["A", "AAAA"].includes(String(r.type)) && !r.proxied)
+      .filter((r) => !isPrivateIp(String(r.content ?? "")) && !mxTargets.has(lower(r.name)))
+      .map((r) => ({
+        rule: "unproxied-origin",
+        severity: "warning",
+        message: `${r.name} → ${r.content} is DNS-only, exposing the origin IP. Proxy it unless it serves non-HTTP traffic.`,
+        records: [ref(r)],
+      }));
+  },
+
+  "wildcard-shadowing": (records) => {
+    const byName = groupBy(records, (r) => lower(r.name));
+    const findings: LintFinding[] = [];
+    for (const [name, wildcards] of byName) {
+      if (!name.startsWith("*.")) continue;
+      const parent = name.slice(2);
+      const wildcardTypes = new Set(wildcards.map((r) => String(r.type)));
+      for (const [other, specific] of byName) {
+        const label = other.slice(0, -parent.length - 1);
+        // Only direct children; service labels (_dmarc, _domainkey, …) are not wildcard targets
+        if (other === name || !other.endsWith(`.${parent}`) || label.includes(".") || label.startsWith("_")) continue;
+        const types = new Set(specific.map((r) => String(r.type)));
+        if (types.has("CNAME")) continue;
+        const shadowed = [...wildcardTypes].filter((t) => !types.has(t));
+        if (shadowed.length === 0) continue;
+        findings.push({
+          rule: "wildcard-shadowing",
+          severity: "warning",
+          message:
+            `${other} exists (${[...types].join(", ")}), so wildcard ${name} no longer applies to it: ` +
+            `${shadowed.join("/")} queries for ${other} get no answer. Add those records explicitly if intended.`,
+          records: [...wildcards, ...specific].map(ref),
+        });
+      }
+    }
+    return findings;
+  },
+
+  "inconsistent-ttl": (records) =>
+    [...groupBy(records, (r) => `${r.type}|${lower(r.name)}`)]
+      .filter(([, group]) => new Set(group.map((r) => r.ttl)).size > 1)
+      .map(([key, group]) => ({
+        rule: "inconsistent-ttl",
+        severity: "warning",
+        message:
+          `${key.replace("|", " ")} RRset has mixed TTLs (${[...new Set(group.map((r) => (r.ttl === 1 ? "auto" : r.ttl)))].join(", ")}). ` +
+          `RFC 2181 requires one TTL per RRset and resolvers may use the lowest — set one TTL for all of them.`,
+        records: group.map(ref),
+      })),
+};
+
+/**
+ * Runs the selected rules (default: all) over a zone's records and returns
+ * the findings, most severe first.
+ */
+export function lintZone(records: Rec[], zoneName: string, only?: readonly LintRule[]): LintFinding[] {
+  const zone = lower(zoneName);
+  return (only ?? LINT_RULES)
+    .flatMap((rule) => rules[rule](records, zone))
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * True when a finding is at least as severe as the given threshold.
+ */
+export function atLeast(finding: LintFinding, threshold: Severity): boolean {
+  return SEVERITY_ORDER[finding.severity] <= SEVERITY_ORDER[threshold];
+}
@@ -1,10 +1,9 @@
-import { CHARACTER_LIMIT } from "../constants.js";
-
 export interface PaginationMeta {
   total: number;
   count: number;
   page: number;
   per_page: number;
+  total_pages: number;
   has_more: boolean;
 }
 
@@ -23,26 +22,11 @@ export function buildPaginationMeta(
     count: items.length,
     page,
     per_page: perPage,
+    total_pages: Math.ceil(total / perPage),
     has_more: page * perPage < total,
   };
 }
 
-/**
- * Truncates a string response to CHARACTER_LIMIT and appends guidance.
- */
-export function truncateIfNeeded(text: string): string {
-  if (text.length <= CHARACTER_LIMIT) return text;
-
-  const truncated = text.slice(0, CHARACTER_LIMIT);
-  const lastNewline = truncated.lastIndexOf("\n");
-  const cleanCut = lastNewline > CHARACTER_LIMIT * 0.8 ? truncated.slice(0, lastNewline) : truncated;
-
-  return (
-    cleanCut +
-    "\n\n--- TRUNCATED ---\nResponse exceeded token limit. Use `page`, `per_page`, or filter parameters (filter_type, filter_name) to narrow results."
-  );
-}
-
 /**
  * Picks N random items from an array without replacement.
  */
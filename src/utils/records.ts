@@ -0,0 +1,114 @@
+/**
+ * Record identity helpers shared by import, diffing and validation.
+ *
+ * Cloudflare returns record content in its own canonical form (TXT may be
+ * quoted, hostnames have no trailing dot, CAA values are quoted). These
+ * helpers normalise both sides so that records from different sources can
+ * be compared by value.
+ */
+
+/**
+ * Normalises record content for comparison: lower-cases hostnames,
+ * strips TXT quoting/chunk joins and trailing dots, collapses whitespace.
+ */
+export function normalizeContent(type: string, content: string): string {
+  let value = content.trim();
+
+  if (type === "TXT") {
+    // "chunk1" "chunk2" → chunk1chunk2
+    if (/^".*"$/s.test(value)) {
+      value = value.replace(/"\s+"/g, "").slice(1, -1);
+    }
+    return value;
+  }
+
+  value = value.replace(/"/g, "").replace(/\s+/g, " ").replace(/\.$/, "");
+  return ["CNAME", "MX", "NS", "PTR", "SRV", "CAA"].includes(type) ? value.toLowerCase() : value;
+}
+
+/**
+ * Builds a value-identity key for a record: type, name, normalised content
+ * and priority. Two records with the same key are duplicates.
+ */
+export function recordKey(record: {
+  type?: unknown;
+  name?: unknown;
+  content?: unknown;
+  priority?: unknown;
+}): string {
+  const type = String(record.type ?? "").toUpperCase();
+  const name = String(record.name ?? "").toLowerCase().replace(/\.$/, "");
+  const content = normalizeContent(type, String(record.content ?? ""));
+  const priority = type === "MX" || type === "SRV" ? String(record.priority ?? "") : "";
+  return `${type}|${name}|${content}|${priority}`;
+}
+
+/**
+ * Expands a relative record name ('www', '@') to an FQDN within the zone.
+ * Names that already end in the zone name (or a trailing dot) are kept.
+ */
+export function qualifyName(name: string, zoneName: string): string {
+  const zone = zoneName.toLowerCase().replace(/\.$/, "");
+  const n = name.trim().toLowerCase();
+  if (n === "@" || n === "") return zone;
+  if (n.endsWith(".")) return n.slice(0, -1);
+  if (n === zone || n.endsWith(`.${zone}`)) return n;
+  return `${n}.${zone}`;
+}
+
+/**
+ * Detects conflicts between a candidate record and the records already at
+ * its name, following Cloudflare's coexistence rules:
+ *   - a CNAME cannot share its name with any other record
+ *   - an NS record cannot share its name with any other record type, except
+ *     at the zone apex, where the zone's own NS records sit beside A, MX, TXT…
+ *   - identical records are rejected as duplicates
+ *
+ * @param existing  Records currently at the candidate's name (any type).
+ * @param candidate The record being created, or the post-update state.
+ * @param zoneName  Name of the zone, to recognise the apex.
+ * @param selfId    ID of the record being updated, excluded from checks.
+ */
+export function findConflicts(
+  existing: Record<string, unknown>[],
+  candidate: { type: string; name: string; content: string; priority?: number },
+  zoneName: string,
+  selfId?: string
+): string[] {
+  const name = candidate.name.toLowerCase();
+  const others = existing.filter(
+    (r) => String(r.id ?? "") !== (selfId ?? "\0") && String(r.name ?? "").toLowerCase() === name
+  );
+  const conflicts: string[] = [];
+  const describe = (r: Record<string, unknown>) => `${r.type} ${r.content}${r.id ? ` (id ${r.id})` : ""}`;
+
+  if (candidate.type === "CNAME" && others.length > 0) {
+    conflicts.push(
+      `CNAME cannot coexist with other records at ${name}; found: ${others.map(describe).join(", ")}.`
+    );
+  }
+
+  const cname = others.find((r) => r.type === "CNAME");
+  if (candidate.type !== "CNAME" && cname) {
+    conflicts.push(`A CNAME already exists at ${name} (${describe(cname)}); ${candidate.type} records cannot coexist with it.`);
+  }
+
+  // NS below the apex delegates the name away; at the apex it is the zone's own
+  const isApex = name.replace(/\.$/, "") === zoneName.toLowerCase();
+  const otherTypes = others.filter((r) => r.type !== "NS");
+  if (!isApex && candidate.type === "NS" && otherTypes.length > 0) {
+    conflicts.push(`NS records cannot coexist with other record types at ${name}; found: ${otherTypes.map(describe).join(", ")}.`);
+  }
+  const ns = others.find((r) => r.type === "NS");
+  if (!isApex && candidate.type !== "NS" && ns) {
+    conflicts.push(`${name} is delegated with NS (${describe(ns)}); ${candidate.type} records cannot coexist with it.`);
+  }
+
+  const key = recordKey(candidate);
+  const duplicate = others.find((r) => recordKey(r) === key);
+  if (duplicate) {
+    conflicts.push(`An identical record already exists: ${describe(duplicate)}.`);
+  }
+
+  return conflicts;
+}
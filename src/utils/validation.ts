@@ -0,0 +1,200 @@
+import { isIPv4, isIPv6 } from "node:net";
+
+/**
+ * Type-aware record checks, run before any write reaches Cloudflare.
+ *
+ * Cloudflare answers a malformed record with a generic 400, which tells the
+ * caller little about what to fix. These checks catch the common mistakes
+ * locally and say exactly what the value should look like.
+ */
+
+export interface RecordFields {
+  type?: string;
+  content?: string;
+  ttl?: number;
+  priority?: number;
+  proxied?: boolean;
+  data?: Record<string, unknown>;
+}
+
+export interface RecordIssue {
+  /** The field the problem is reported against. */
+  field: keyof RecordFields;
+  message: string;
+}
+
+/** Cloudflare's limit on the total length of TXT content. */
+const TXT_MAX_LENGTH = 2048;
+
+/** DNS limit on a single TXT character-string. */
+const TXT_CHUNK_LENGTH = 255;
+
+/** Cloudflare's TTL bounds in seconds; 1 means automatic. Below 60 is Enterprise only. */
+const TTL_MIN = 30;
+const TTL_MAX = 86400;
+
+const PROXIABLE_TYPES = ["A", "AAAA", "CNAME"];
+
+const CAA_TAGS = ["issue", "issuewild", "iodef"];
+
+/**
+ * True for a syntactically valid hostname (trailing dot allowed).
+ */
+export function isHostname(value: string): boolean {
+  const name = value.replace(/\.$/, "");
+  if (name.length === 0 || name.length > 253) return false;
+  return name.split(".").every((label) => /^(?!-)[a-z0-9_-]{1,63}(?<!-)$/i.test(label));
+}
+
+function isUint16(value: unknown): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 65535;
+}
+
+/**
+ * Splits quoted TXT content ("chunk1" "chunk2") into its chunks, or returns
+ * null when the quoting is malformed.
+ */
+function parseTxtChunks(content: string): string[] | null {
+  const chunks: string[] = [];
+  const re = /\s*"((?:[^"\\]|\\.)*)"\s*/gy;
+  let match: RegExpExecArray | null;
+  let end = 0;
+  while ((match = re.exec(content)) !== null) {
+    chunks.push(match[1]);
+    end = re.lastIndex;
+  }
+  return end === content.length ? chunks : null;
+}
+
+function checkTxt(content: string): string | null {
+  if (content.length > TXT_MAX_LENGTH) {
+    return `TXT content is ${content.length} characters; Cloudflare allows at most ${TXT_MAX_LENGTH}.`;
+  }
+  if (!content.trim().startsWith('"')) return null; // Unquoted: Cloudflare splits long values itself
+
+  const chunks = parseTxtChunks(content.trim());
+  if (!chunks) {
+    return `TXT content starts with a quote but is not a sequence of quoted strings. ` +
+      `Use "chunk1" "chunk2", or pass the value unquoted.`;
+  }
+  const long = chunks.findIndex((c) => c.length > TXT_CHUNK_LENGTH);
+  if (long >= 0) {
+    return `TXT chunk ${long + 1} is ${chunks[long].length} characters; each quoted string may be at most ` +
+      `${TXT_CHUNK_LENGTH}. Split it into more chunks, or pass the value unquoted and Cloudflare will split it.`;
+  }
+  return null;
+}
+
+function checkCaa(rec: RecordFields): RecordIssue | null {
+  if (rec.data) {
+    const { flags, tag, value } = rec.data;
+    if (typeof flags !== "number" || !Number.isInteger(flags) || flags < 0 || flags > 255) {
+      return { field: "data", message: "CAA data.flags must be an integer from 0 to 255 (usually 0)." };
+    }
+    if (typeof tag !== "string" || !CAA_TAGS.includes(tag)) {
+      return { field: "data", message: `CAA data.tag must be one of: ${CAA_TAGS.join(", ")}.` };
+    }
+    if (typeof value !== "string" || value.length === 0) {
+      return { field: "data", message: "CAA data.value must be a non-empty string, e.g. 'letsencrypt.org'." };
+    }
+    return null;
+  }
+
+  const match = (rec.content ?? "").trim().match(/^(\d+)\s+(\S+)\s+"?([^"]*)"?$/);
+  if (!match || Number(match[1]) > 255 || !CAA_TAGS.includes(match[2]) || !match[3]) {
+    return {
+      field: "content",
+      message:
+        `CAA content must be '<flags> <tag> "<value>"' with flags 0-255 and tag one of ${CAA_TAGS.join(", ")}, ` +
+        `e.g. '0 issue "letsencrypt.org"'. Or pass data: { flags, tag, value }.`,
+    };
+  }
+  return null;
+}
+
+function checkSrv(data: Record<string, unknown> | undefined): string | null {
+  if (!data) {
+    return "SRV records need data: { priority, weight, port, target }, e.g. " +
+      "{ priority: 10, weight: 5, port: 5060, target: 'sip.example.com' }.";
+  }
+  const missing = ["priority", "weight", "port"].filter((k) => !isUint16(data[k]));
+  if (missing.length > 0) {
+    return `SRV data.${missing.join(", data.")} must be integer(s) from 0 to 65535.`;
+  }
+  if (typeof data.target !== "string" || !(data.target === "." || isHostname(data.target))) {
+    return "SRV data.target must be a hostname (or '.' for 'service not available').";
+  }
+  return null;
+}
+
+/**
+ * Checks a record's content, TTL, priority, proxy flag and structured data
+ * against its type. Fields that are absent are not checked, so the same
+ * function serves creates and the merged state of a partial update.
+ */
+export function validateRecordFields(rec: RecordFields): RecordIssue[] {
+  const issues: RecordIssue[] = [];
+  const type = (rec.type ?? "").toUpperCase();
+  const content = rec.content?.trim();
+
+  if (rec.ttl !== undefined && rec.ttl !== 1 && (rec.ttl < TTL_MIN || rec.ttl > TTL_MAX)) {
+    issues.push({ field: "ttl", message: `TTL must be 1 (automatic) or ${TTL_MIN}-${TTL_MAX} seconds, got ${rec.ttl}.` });
+  }
+  if (rec.proxied && type && !PROXIABLE_TYPES.includes(type)) {
+    issues.push({ field: "proxied", message: `proxied=true is only allowed on A, AAAA and CNAME records, not ${type}.` });
+  }
+
+  switch (type) {
+    case "A":
+      if (content !== undefined && !isIPv4(content)) {
+        issues.push({ field: "content", message: `A record content must be an IPv4 address like 192.0.2.1, got '${content}'.` });
+      }
+      break;
+    case "AAAA":
+      if (content !== undefined && !isIPv6(content)) {
+        issues.push({ field: "content", message: `AAAA record content must be an IPv6 address like 2001:db8::1, got '${content}'.` });
+      }
+      break;
+    case "CNAME":
+    case "NS":
+      if (content !== undefined && !isHostname(content)) {
+        issues.push({ field: "content", message: `${type} record content must be a hostname like target.example.com, got '${content}'.` });
+      }
+      break;
+    case "MX":
+      if (content !== undefined && content !== "." && !isHostname(content)) {
+        issues.push({ field: "content", message: `MX record content must be a mail server hostname like mail.example.com, got '${content}'.` });
+      }
+      if (rec.priority === undefined) {
+        issues.push({ field: "priority", message: "MX records require priority (0-65535, lower is preferred)." });
+      }
+      break;
+    case "TXT": {
+      const problem = content !== undefined ? checkTxt(content) : null;
+      if (problem) issues.push({ field: "content", message: problem });
+      break;
+    }
+    case "CAA": {
+      const issue = checkCaa(rec);
+      if (issue) issues.push(issue);
+      break;
+    }
+    case "SRV": {
+      const problem = checkSrv(rec.data);
+      if (problem) issues.push({ field: "data", message: problem });
+      break;
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a partial update against the record it changes. New content
+ * replaces structured data, so the old data is not merged in. Only problems
+ * with the fields being changed are reported.
+ */
+export function validatePatch(before: Record<string, unknown>, patch: Record<string, unknown>): RecordIssue[] {
+  const merged = { ...before, ...(patch.content !== undefined ? { data: undefined } : {}), ...patch };
+  return validateRecordFields(merged as RecordFields).filter((i) => i.field in patch);
+}
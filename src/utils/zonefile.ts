@@ -0,0 +1,372 @@
+/**
+ * BIND zonefile parser (RFC 1035 master file format).
+ *
+ * Handles $ORIGIN, $TTL, relative names and '@', blank owners (inherit the
+ * previous owner), parenthesised multi-line records, ';' comments and quoted
+ * character-strings (TXT chunks). Produces Cloudflare-ready record payloads;
+ * entries that cannot be represented are returned as parse errors with the
+ * line they came from.
+ */
+
+/** A record parsed from a zonefile, shaped like a Cloudflare create payload. */
+export interface ParsedRecord {
+  line: number;
+  type: string;
+  name: string;
+  content: string;
+  ttl: number;
+  priority?: number;
+  data?: Record<string, unknown>;
+}
+
+/** An entry the parser could not turn into a record. */
+export interface ZonefileIssue {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ParsedZonefile {
+  records: ParsedRecord[];
+  /** Entries intentionally ignored (SOA, apex NS — managed by Cloudflare). */
+  skipped: ZonefileIssue[];
+  /** Malformed or unsupported entries. */
+  errors: ZonefileIssue[];
+}
+
+/** Record types the importer can translate into Cloudflare payloads. */
+export const IMPORTABLE_TYPES = ["A", "AAAA", "CAA", "CNAME", "MX", "NS", "PTR", "SRV", "TXT"] as const;
+
+const CLASSES = new Set(["IN", "CH", "HS", "CS"]);
+
+interface Token {
+  value: string;
+  quoted: boolean;
+}
+
+interface LogicalLine {
+  line: number;
+  text: string;
+  /** True when the entry starts with whitespace (owner inherited). */
+  indented: boolean;
+  tokens: Token[];
+}
+
+/**
+ * Splits zonefile text into logical entries. Newlines inside parentheses
+ * do not terminate an entry; comments and quotes are honoured.
+ */
+function tokenize(text: string): { lines: LogicalLine[]; errors: ZonefileIssue[] } {
+  const lines: LogicalLine[] = [];
+  const errors: ZonefileIssue[] = [];
+
+  let current: LogicalLine | null = null;
+  let depth = 0;
+  let lineNo = 1;
+  let atLineStart = true;
+  let i = 0;
+
+  const flush = () => {
+    if (current && current.tokens.length > 0) lines.push(current);
+    current = null;
+  };
+  const push = (token: Token, indented: boolean) => {
+    if (!current) current = { line: lineNo, text: "", indented, tokens: [] };
+    current.tokens.push(token);
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\n") {
+      if (depth === 0) flush();
+      lineNo++;
+      atLineStart = true;
+      i++;
+      continue;
+    }
+
+    if (ch === " " || ch === "\t" || ch === "\r") {
+      i++;
+      continue;
+    }
+
+    const indented = atLineStart && i > 0 && text[i - 1] !== "\n" && depth === 0;
+    const startsEntry = atLineStart && depth === 0;
+    atLineStart = false;
+
+    if (ch === ";") {
+      while (i < text.length && text[i] !== "\n") i++;
+      continue;
+    }
+
+    if (ch === "(") {
+      if (startsEntry) flush();
+      depth++;
+      i++;
+      continue;
+    }
+
+    if (ch === ")") {
+      if (depth === 0) {
+        errors.push({ line: lineNo, text: ")", reason: "Unbalanced closing parenthesis." });
+      } else {
+        depth--;
+      }
+      i++;
+      continue;
+    }
+
+    if (startsEntry) flush();
+
+    if (ch === '"') {
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          const digits = text.slice(i + 1, i + 4);
+          if (/^\d{3}$/.test(digits)) {
+            value += String.fromCharCode(parseInt(digits, 10));
+            i += 4;
+          } else {
+            value += text[i + 1];
+            i += 2;
+          }
+          continue;
+        }
+        if (text[i] === "\n") lineNo++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) {
+        errors.push({ line: lineNo, text: value, reason: "Unterminated quoted string." });
+      }
+      i++; // closing quote
+      push({ value, quoted: true }, indented);
+      continue;
+    }
+
+    let value = "";
+    while (i < text.length && !/[\s;()"]/.test(text[i])) {
+      value += text[i];
+      i++;
+    }
+    push({ value, quoted: false }, indented);
+  }
+
+  if (depth > 0) {
+    errors.push({ line: lineNo, text: "(", reason: "Unbalanced opening parenthesis." });
+  }
+  flush();
+
+  for (const l of lines) {
+    l.text = l.tokens.map((t) => (t.quoted ? `"${t.value}"` : t.value)).join(" ");
+  }
+  return { lines, errors };
+}
+
+/**
+ * Parses a BIND TTL value: plain seconds or unit form such as "1h30m".
+ * Returns null if the token is not a TTL.
+ */
+export function parseTtl(token: string): number | null {
+  if (/^\d+$/.test(token)) return parseInt(token, 10);
+  const match = token.toLowerCase().match(/^(\d+[smhdw])+$/);
+  if (!match) return null;
+
+  const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+  let total = 0;
+  for (const part of token.toLowerCase().matchAll(/(\d+)([smhdw])/g)) {
+    total += parseInt(part[1], 10) * units[part[2]];
+  }
+  return total;
+}
+
+/** Resolves a zonefile name against the current origin. Returns an FQDN without trailing dot. */
+function absoluteName(name: string, origin: string): string {
+  if (name === "@") return origin;
+  if (name.endsWith(".")) return name.slice(0, -1).toLowerCase();
+  return `${name}.${origin}`.toLowerCase();
+}
+
+function normalizeOrigin(origin: string): string {
+  return origin.replace(/\.$/, "").toLowerCase();
+}
+
+/**
+ * Parses BIND zonefile text into Cloudflare record payloads.
+ *
+ * @param text   Zonefile contents.
+ * @param origin Initial $ORIGIN (the zone name), used until a $ORIGIN directive overrides it.
+ */
+export function parseZonefile(text: string, origin: string): ParsedZonefile {
+  const { lines, errors } = tokenize(text);
+  const records: ParsedRecord[] = [];
+  const skipped: ZonefileIssue[] = [];
+
+  const zoneApex = normalizeOrigin(origin);
+  let currentOrigin = zoneApex;
+  let defaultTtl: number | null = null;
+  let lastTtl: number | null = null;
+  let lastOwner: string | null = null;
+
+  for (const entry of lines) {
+    const tokens = [...entry.tokens];
+    const reject = (reason: string) => errors.push({ line: entry.line, text: entry.text, reason });
+
+    // ── Directives ──
+    const first = tokens[0];
+    if (!first.quoted && first.value.startsWith("$")) {
+      const directive = first.value.toUpperCase();
+      if (directive === "$ORIGIN" && tokens[1]) {
+        currentOrigin = absoluteName(tokens[1].value, currentOrigin);
+      } else if (directive === "$TTL" && tokens[1] && parseTtl(tokens[1].value) !== null) {
+        defaultTtl = parseTtl(tokens[1].value);
+      } else if (directive === "$INCLUDE") {
+        reject("$INCLUDE is not supported. Inline the included file's records.");
+      } else {
+        reject(`Malformed or unknown directive ${first.value}.`);
+      }
+      continue;
+    }
+
+    // ── Owner ──
+    let owner: string;
+    if (entry.indented) {
+      if (!lastOwner) {
+        reject("Record has no owner name and no previous owner to inherit.");
+        continue;
+      }
+      owner = lastOwner;
+    } else {
+      owner = absoluteName(tokens.shift()!.value, currentOrigin);
+    }
+    lastOwner = owner;
+
+    // ── TTL and class, in either order ──
+    let ttl: number | null = null;
+    let recordClass = "IN";
+    for (let k = 0; k < 2 && tokens.length > 0 && !tokens[0].quoted; k++) {
+      const upper = tokens[0].value.toUpperCase();
+      const parsed = parseTtl(tokens[0].value);
+      if (ttl === null && parsed !== null) {
+        ttl = parsed;
+        tokens.shift();
+      } else if (CLASSES.has(upper)) {
+        recordClass = upper;
+        tokens.shift();
+      }
+    }
+    if (recordClass !== "IN") {
+      reject(`Class ${recordClass} is not supported; only IN records can be imported.`);
+      continue;
+    }
+    if (ttl !== null) lastTtl = ttl;
+    const effectiveTtl = ttl ?? defaultTtl ?? lastTtl ?? 1;
+
+    const typeToken = tokens.shift();
+    if (!typeToken) {
+      reject("Missing record type.");
+      continue;
+    }
+    const type = typeToken.value.toUpperCase();
+    const rdata = tokens;
+    const base = { line: entry.line, type, name: owner, ttl: effectiveTtl };
+
+    if (type === "SOA") {
+      skipped.push({ line: entry.line, text: entry.text, reason: "SOA is managed by Cloudflare." });
+      continue;
+    }
+    if (type === "NS" && owner === zoneApex) {
+      skipped.push({ line: entry.line, text: entry.text, reason: "Apex NS records are managed by Cloudflare." });
+      continue;
+    }
+    if (!(IMPORTABLE_TYPES as readonly string[]).includes(type)) {
+      reject(
+        `Record type ${type} cannot be imported. Supported: ${IMPORTABLE_TYPES.join(", ")}. ` +
+          `Create it with cf_dns_create_record using the 'data' field.`
+      );
+      continue;
+    }
+    if (rdata.length === 0) {
+      reject(`${type} record has no data.`);
+      continue;
+    }
+
+    const arity = (n: number) => {
+      if (rdata.length !== n) {
+        reject(`${type} record expects ${n} data field(s), found ${rdata.length}.`);
+        return false;
+      }
+      return true;
+    };
+
+    switch (type) {
+      case "A":
+      case "AAAA":
+        if (arity(1)) records.push({ ...base, content: rdata[0].value });
+        break;
+
+      case "CNAME":
+      case "NS":
+      case "PTR":
+        if (arity(1)) records.push({ ...base, content: absoluteName(rdata[0].value, currentOrigin) });
+        break;
+
+      case "MX": {
+        if (!arity(2)) break;
+        const priority = Number(rdata[0].value);
+        if (!Number.isInteger(priority) || priority < 0 || priority > 65535) {
+          reject(`Invalid MX preference '${rdata[0].value}'.`);
+          break;
+        }
+        records.push({ ...base, priority, content: absoluteName(rdata[1].value, currentOrigin) });
+        break;
+      }
+
+      case "TXT": {
+        // Adjacent quoted character-strings are concatenated, as resolvers do for
+        // SPF/DKIM; unquoted words keep the space that separated them.
+        let content = "";
+        rdata.forEach((t, i) => {
+          if (i > 0 && !(t.quoted && rdata[i - 1].quoted)) content += " ";
+          content += t.value;
+        });
+        records.push({ ...base, content });
+        break;
+      }
+
+      case "SRV": {
+        if (!arity(4)) break;
+        const [priority, weight, port] = rdata.slice(0, 3).map((t) => Number(t.value));
+        if (![priority, weight, port].every((n) => Number.isInteger(n) && n >= 0 && n <= 65535)) {
+          reject("SRV priority, weight and port must be integers between 0 and 65535.");
+          break;
+        }
+        const target = absoluteName(rdata[3].value, currentOrigin);
+        records.push({
+          ...base,
+          priority,
+          content: `${weight} ${port} ${target}`,
+          data: { priority, weight, port, target },
+        });
+        break;
+      }
+
+      case "CAA": {
+        if (!arity(3)) break;
+        const flags = Number(rdata[0].value);
+        if (!Number.isInteger(flags) || flags < 0 || flags > 255) {
+          reject(`Invalid CAA flags '${rdata[0].value}'.`);
+          break;
+        }
+        const tag = rdata[1].value;
+        const value = rdata[2].value;
+        records.push({ ...base, content: `${flags} ${tag} "${value}"`, data: { flags, tag, value } });
+        break;
+      }
+    }
+  }
+
+  return { records, skipped, errors };
+}
@@ -0,0 +1,95 @@
+/**
+ * cloudflare-dns-mcp-server — Cloudflare Worker entry point
+ *
+ * Serves the same Streamable HTTP app as `TRANSPORT=http`, natively on
+ * Workers. Configuration comes from the Worker's bindings rather than
+ * process.env:
+ *
+ *   - vars and secrets (CLOUDFLARE_API_TOKEN, MCP_API_TOKEN, ...) are
+ *     installed with setEnv() and read through getEnv()
+ *   - KV namespaces bound as SNAPSHOTS, JOURNAL, CACHE and CONFIRMATIONS
+ *     replace the file-based snapshot and journal stores, the in-memory
+ *     cache, and the in-memory confirmation tokens and require_dry_run
+ *     preview ledger
+ *
+ * Profile tokens are verified on the first request an isolate handles,
+ * since a Worker has no startup phase to do it in.
+ */
+
+import { createHttpApp } from "./http.js";
+import { getEnv, setEnv } from "./services/env.js";
+import { validateProfiles } from "./services/cloudflare.js";
+import { KvSnapshotStore, setSnapshotStore } from "./services/snapshots.js";
+import type { KvNamespaceLike } from "./services/snapshots.js";
+import { KvJournalStore, setJournalStore } from "./services/journal.js";
+import { KvCacheStore, setCacheStore } from "./services/cache.js";
+import { KvConfirmationStore, setConfirmationStore } from "./services/confirmations.js";
+import { getSessionMode } from "./services/sessions.js";
+import { getOAuthConfig } from "./services/oauth.js";
+import { getScopedKeys } from "./services/auth.js";
+import { getPolicies, KvPreviewLedger, setPreviewLedger } from "./services/policy.js";
+
+/** Bindings the Worker reads; see wrangler.toml. */
+export interface WorkerEnv {
+  CLOUDFLARE_API_TOKEN?: string;
+  MCP_API_TOKEN?: string;
+  CLOUDFLARE_DNS_MCP_API_KEY?: string;
+  SNAPSHOTS?: KvNamespaceLike;
+  JOURNAL?: KvNamespaceLike;
+  CACHE?: KvNamespaceLike;
+  CONFIRMATIONS?: KvNamespaceLike;
+  [name: string]: unknown;
+}
+
+// Isolates share no memory, so in-memory sessions are opt-in on Workers
+const app = createHttpApp({ defaultSessionMode: "stateless" });
+let _ready: Promise<void> | null = null;
+
+/**
+ * Installs bindings and verifies every profile's token, once per isolate.
+ * A failure is not remembered, so the next request tries again.
+ */
+function ensureReady(env: WorkerEnv): Promise<void> {
+  if (!_ready) {
+    _ready = (async () => {
+      setEnv(env);
+      if (env.SNAPSHOTS) setSnapshotStore(new KvSnapshotStore(env.SNAPSHOTS));
+      if (env.JOURNAL) setJournalStore(new KvJournalStore(env.JOURNAL));
+      if (env.CACHE) setCacheStore(new KvCacheStore(env.CACHE));
+      if (env.CONFIRMATIONS) {
+        setConfirmationStore(new KvConfirmationStore(env.CONFIRMATIONS));
+        setPreviewLedger(new KvPreviewLedger(env.CONFIRMATIONS));
+      }
+
+      // Each isolate would auto-generate a different key, so one must be set
+      const apiKey = getEnv("CLOUDFLARE_DNS_MCP_API_KEY") ?? "";
+      const scopedKeys = getScopedKeys();
+      if (!getOAuthConfig() && !getEnv("MCP_API_TOKEN")?.trim() && apiKey.length < 16 && scopedKeys.length === 0) {
+        throw new Error(
+          "Set MCP_OAUTH_ISSUER, MCP_API_TOKEN, CLOUDFLARE_DNS_MCP_API_KEYS or CLOUDFLARE_DNS_MCP_API_KEY " +
+            "(at least 16 characters) with `wrangler secret put`."
+        );
+      }
+      // Fail early on an invalid MCP_SESSION_MODE or policy configuration
+      getSessionMode("stateless");
+      getPolicies();
+      await validateProfiles();
+    })();
+    _ready.catch(() => {
+      _ready = null;
+    });
+  }
+  return _ready;
+}
+
+export default {
+  async fetch(request: Request, env: WorkerEnv): Promise<Response> {
+    try {
+      await ensureReady(env);
+    } catch (err) {
+      console.error(`Worker configuration error: ${err instanceof Error ? err.message : String(err)}`);
+      return Response.json({ error: "Server misconfigured. See the Worker logs for details." }, { status: 500 });
+    }
+    return app.fetch(request, env);
+  },
+};
@@ -0,0 +1,141 @@
+/**
+ * OAuth access-token verification against a local stub issuer: a Node HTTP
+ * server publishing authorization-server metadata and a JWKS generated with
+ * jose, whose private key signs the test tokens.
+ */
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { exportJWK, generateKeyPair, SignJWT } from "jose";
+import type { JWTPayload } from "jose";
+import { setEnv } from "../src/services/env.js";
+import { InvalidTokenError, verifyAccessToken } from "../src/services/oauth.js";
+import type { OAuthConfig } from "../src/services/oauth.js";
+import { createHttpApp } from "../src/http.js";
+
+const RESOURCE = "http://localhost/mcp";
+let issuer: string;
+let server: Server;
+let signingKey: CryptoKey;
+
+before(async () => {
+  const keys = await generateKeyPair("RS256");
+  signingKey = keys.privateKey;
+  const jwks = { keys: [{ ...(await exportJWK(keys.publicKey)), kid: "test", alg: "RS256", use: "sig" }] };
+  server = createServer((req, res) => {
+    const body =
+      req.url === "/.well-known/oauth-authorization-server"
+        ? { issuer, jwks_uri: `${issuer}/jwks.json` }
+        : req.url === "/jwks.json"
+          ? jwks
+          : null;
+    res.writeHead(body ? 200 : 404, { "content-type": "application/json" });
+    res.end(JSON.stringify(body ?? { error: "not_found" }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function config(overrides: Partial<OAuthConfig> = {}): OAuthConfig {
+  return { issuer, audience: null, jwksUrl: null, resource: null, ...overrides };
+}
+
+/** Signs a token with the stub issuer's key; `exp` is in seconds from now, null to omit it. */
+function sign(claims: JWTPayload, options: { iss?: string; aud?: string; exp?: number | null; key?: CryptoKey } = {}) {
+  const jwt = new SignJWT(claims)
+    .setProtectedHeader({ alg: "RS256", kid: "test" })
+    .setIssuedAt()
+    .setSubject("alice")
+    .setIssuer(options.iss ?? issuer)
+    .setAudience(options.aud ?? RESOURCE);
+  const exp = options.exp === undefined ? 300 : options.exp;
+  if (exp !== null) jwt.setExpirationTime(Math.floor(Date.now() / 1000) + exp);
+  return jwt.sign(options.key ?? signingKey);
+}
+
+describe("verifyAccessToken", () => {
+  test("accepts a valid token, discovering the JWKS from the issuer", async () => {
+    const token = await sign({ scope: "dns:read dns:write" });
+    const info = await verifyAccessToken(config(), token, RESOURCE);
+    assert.equal(info.clientId, "oauth:alice");
+    assert.deepEqual(info.scopes, ["dns:read", "dns:write"]);
+    assert.equal(info.extra?.issuer, issuer);
+  });
+
+  test("reads scopes from an scp array", async () => {
+    const token = await sign({ scp: ["dns:admin"] });
+    const info = await verifyAccessToken(config({ jwksUrl: `${issuer}/jwks.json` }), token, RESOURCE);
+    assert.deepEqual(info.scopes, ["dns:admin"]);
+  });
+
+  test("rejects a token from another issuer", async () => {
+    const token = await sign({ scope: "dns:read" }, { iss: "https://issuer.invalid" });
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+
+  test("rejects a token for another audience", async () => {
+    const token = await sign({ scope: "dns:read" }, { aud: "https://other.example.com/mcp" });
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+
+  test("checks MCP_OAUTH_AUDIENCE instead of the resource URL when set", async () => {
+    const token = await sign({ scope: "dns:read" }, { aud: "dns-api" });
+    await verifyAccessToken(config({ audience: "dns-api" }), token, RESOURCE);
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+
+  test("rejects an expired token", async () => {
+    const token = await sign({ scope: "dns:read" }, { exp: -120 });
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+
+  test("rejects a token without exp", async () => {
+    const token = await sign({ scope: "dns:read" }, { exp: null });
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+
+  test("rejects a token signed with another key", async () => {
+    const other = await generateKeyPair("RS256");
+    const token = await sign({ scope: "dns:read" }, { key: other.privateKey });
+    await assert.rejects(verifyAccessToken(config(), token, RESOURCE), InvalidTokenError);
+  });
+});
+
+describe("scopes over HTTP", () => {
+  async function post(token: string, method: string, params?: unknown) {
+    setEnv({ MCP_OAUTH_ISSUER: issuer, CLOUDFLARE_API_TOKEN: "t".repeat(40) });
+    const app = createHttpApp({ defaultSessionMode: "stateless" });
+    return app.request(RESOURCE, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        accept: "application/json, text/event-stream",
+        authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, ...(params ? { params } : {}) }),
+    });
+  }
+
+  test("refuses a token without any dns scope with 403 insufficient_scope", async () => {
+    const res = await post(await sign({ scope: "openid profile" }), "tools/list");
+    assert.equal(res.status, 403);
+    assert.match(res.headers.get("WWW-Authenticate") ?? "", /error="insufficient_scope"/);
+  });
+
+  test("refuses a write tool to a dns:read token", async () => {
+    const res = await post(await sign({ scope: "dns:read" }), "tools/call", {
+      name: "cf_dns_delete_record",
+      arguments: { zone_id: "zone", record_id: "record" },
+    });
+    assert.equal(res.status, 200);
+    const body = (await res.json()) as { result: { isError: boolean; content: { text: string }[] } };
+    assert.equal(body.result.isError, true);
+    assert.match(body.result.content[0].text, /requires the 'dns:write' scope/);
+  });
+});
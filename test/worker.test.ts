@@ -0,0 +1,76 @@
+/**
+ * Worker smoke test: bundles the Worker exactly as `wrangler deploy` would,
+ * runs it in workerd through Miniflare with the KV bindings from
+ * wrangler.toml, and drives the MCP handshake over fetch. Calls to the
+ * Cloudflare API are answered locally, so no network access is needed.
+ */
+import { execFileSync } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { Miniflare } from "miniflare";
+import { unstable_readConfig } from "wrangler";
+
+const API_TOKEN = "smoke-test-bearer-token";
+const outdir = mkdtempSync(join(tmpdir(), "cf-dns-mcp-worker-"));
+let mf: Miniflare;
+
+before(() => {
+  // Runs the custom build from wrangler.toml, then bundles dist/worker.js
+  execFileSync("npx", ["wrangler", "deploy", "--dry-run", "--outdir", outdir], { stdio: "pipe" });
+  const config = unstable_readConfig({ config: "wrangler.toml" });
+  mf = new Miniflare({
+    scriptPath: join(outdir, "worker.js"),
+    modules: true,
+    modulesRoot: outdir,
+    compatibilityDate: config.compatibility_date,
+    compatibilityFlags: config.compatibility_flags,
+    kvNamespaces: ["SNAPSHOTS", "JOURNAL", "CACHE", "CONFIRMATIONS"],
+    bindings: { CLOUDFLARE_API_TOKEN: "t".repeat(40), MCP_API_TOKEN: API_TOKEN },
+    // Profile token verification on the first request
+    outboundService: () =>
+      Response.json({ success: true, errors: [], messages: [], result: { id: "token", status: "active" } }),
+  });
+});
+
+after(async () => {
+  await mf?.dispose();
+  rmSync(outdir, { recursive: true, force: true });
+});
+
+async function rpc(id: number, method: string, params?: unknown, token = API_TOKEN) {
+  const res = await mf.dispatchFetch("http://localhost/mcp", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id, method, ...(params ? { params } : {}) }),
+  });
+  return { status: res.status, body: (await res.json()) as Record<string, any> };
+}
+
+test("rejects requests without the bearer token", async () => {
+  const { status } = await rpc(1, "tools/list", undefined, "wrong-token");
+  assert.equal(status, 401);
+});
+
+test("initialize, then tools/list", async () => {
+  const init = await rpc(1, "initialize", {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "worker-smoke-test", version: "0.0.0" },
+  });
+  assert.equal(init.status, 200);
+  assert.equal(init.body.result.serverInfo.name, "cloudflare-dns-mcp-server");
+
+  const list = await rpc(2, "tools/list");
+  assert.equal(list.status, 200);
+  const names = list.body.result.tools.map((t: { name: string }) => t.name);
+  for (const name of ["cf_dns_list_records", "cf_dns_batch", "cf_dns_snapshot_zone", "cf_dns_undo"]) {
+    assert.ok(names.includes(name), `${name} is listed`);
+  }
+});